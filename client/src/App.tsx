@@ -2,13 +2,24 @@ import { Switch, Route } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
+import AccountBar from "@/components/AccountBar";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/Home";
+import History from "@/pages/History";
+import JobDetail from "@/pages/JobDetail";
+import AuthPage from "@/pages/AuthPage";
+import Settings from "@/pages/Settings";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={Home} />
+      <Route path="/auth" component={AuthPage} />
+      <ProtectedRoute path="/" component={Home} />
+      <ProtectedRoute path="/history" component={History} />
+      <ProtectedRoute path="/history/:jobId" component={JobDetail} />
+      <ProtectedRoute path="/settings" component={Settings} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -17,8 +28,11 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <Router />
-      <Toaster />
+      <AuthProvider>
+        <AccountBar />
+        <Router />
+        <Toaster />
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -0,0 +1,37 @@
+import { Link } from "wouter";
+import { KeyRound, LogOut, User } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+
+// Who is logged in, with a way to log out; hidden on the login screen
+export default function AccountBar() {
+  const { user, logoutMutation } = useAuth();
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="border-b bg-white">
+      <div className="container mx-auto px-4 py-2 max-w-4xl flex items-center justify-end gap-3 text-sm">
+        <span className="inline-flex items-center text-gray-600">
+          <User className="h-4 w-4 mr-1" />
+          {user.username}
+        </span>
+        <Link href="/settings" className="inline-flex items-center text-blue-600 hover:underline">
+          <KeyRound className="h-4 w-4 mr-1" />
+          API keys
+        </Link>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => logoutMutation.mutate()}
+          disabled={logoutMutation.isPending}
+        >
+          <LogOut className="h-4 w-4 mr-1" />
+          Log out
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,25 +1,34 @@
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { CheckCircle, FolderOpen, ArrowLeft, Loader2, FileSearch } from "lucide-react";
+import { CheckCircle, FolderOpen, ArrowLeft, Loader2, FileSearch, RotateCcw, Download, Combine } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { CompletionResults } from "@/pages/Home";
+import { CompletionResults, UrlStatus } from "@/pages/Home";
 import PdfFileList from "./PdfFileList";
 import FileExplorer from "./FileExplorer";
 import { useState, useEffect } from "react";
-import { listPdfFiles } from "@/lib/api";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { listPdfFiles, retryFailedUrls, getJobArchiveUrl, mergeJobPdfs } from "@/lib/api";
 
 interface CompletionCardProps {
   results: CompletionResults;
+  urlStatuses: UrlStatus[];
   onStartNew: () => void;
+  onRetry: (jobId: string) => void;
   jobId: string;
 }
 
-export default function CompletionCard({ results, onStartNew, jobId }: CompletionCardProps) {
+export default function CompletionCard({ results, urlStatuses, onStartNew, onRetry, jobId }: CompletionCardProps) {
   const { toast } = useToast();
   const [showFileList, setShowFileList] = useState(false);
   const [showFileExplorer, setShowFileExplorer] = useState(false);
   const [isChecking, setIsChecking] = useState(true);
   const [fileCount, setFileCount] = useState(0);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [isMerging, setIsMerging] = useState(false);
+  const [includeCoverPage, setIncludeCoverPage] = useState(true);
+  
+  const failedUrls = urlStatuses.filter(u => u.status === "failed");
   
   console.log("CompletionCard received results:", results);
   
@@ -89,6 +98,41 @@ export default function CompletionCard({ results, onStartNew, jobId }: Completio
     };
   }, [jobId, results.successful, toast]);
   
+  const handleRetryFailed = async () => {
+    try {
+      setIsRetrying(true);
+      const { jobId: retryJobId } = await retryFailedUrls(jobId);
+      onRetry(retryJobId);
+    } catch (error) {
+      toast({
+        title: "Error retrying",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      setIsRetrying(false);
+    }
+  };
+  
+  const handleMerge = async () => {
+    try {
+      setIsMerging(true);
+      const merged = await mergeJobPdfs(jobId, includeCoverPage);
+      toast({
+        title: "PDFs merged",
+        description: `${merged.filename} (${merged.pageCount} pages)`,
+      });
+      window.location.href = merged.downloadUrl;
+    } catch (error) {
+      toast({
+        title: "Error merging",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsMerging(false);
+    }
+  };
+  
   const handleViewPdfs = () => {
     setShowFileList(true);
   };
@@ -192,7 +236,41 @@ export default function CompletionCard({ results, onStartNew, jobId }: Completio
           </p>
         </div>
 
+        {failedUrls.length > 0 && (
+          <div className="border border-red-200 rounded-md overflow-hidden mb-6">
+            <div className="bg-red-50 px-4 py-2 border-b border-red-200">
+              <span className="font-medium text-sm text-red-800">Failed URLs</span>
+            </div>
+            <div className="divide-y max-h-60 overflow-y-auto">
+              {failedUrls.map((urlStatus, index) => (
+                <div key={index} className="px-4 py-2">
+                  <p className="text-sm font-mono truncate">{urlStatus.url}</p>
+                  {urlStatus.error && (
+                    <p className="text-xs text-red-600 break-words">{urlStatus.error}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="space-y-4">
+          {failedUrls.length > 0 && (
+            <Button 
+              variant="outline" 
+              className="w-full" 
+              onClick={handleRetryFailed}
+              disabled={isRetrying}
+            >
+              {isRetrying ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <RotateCcw className="mr-2 h-4 w-4" />
+              )}
+              Retry failed ({failedUrls.length})
+            </Button>
+          )}
+          
           <Button 
             className="w-full" 
             onClick={handleViewPdfs}
@@ -212,6 +290,41 @@ export default function CompletionCard({ results, onStartNew, jobId }: Completio
           </Button>
           
           <div className="flex flex-col gap-3">
+            {fileCount > 1 && (
+              <div className="flex items-center gap-3">
+                <Button 
+                  variant="outline" 
+                  className="flex-1" 
+                  onClick={handleMerge}
+                  disabled={isMerging}
+                >
+                  {isMerging ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Combine className="mr-2 h-4 w-4" />
+                  )}
+                  Merge into one PDF
+                </Button>
+                <div className="flex items-center gap-2">
+                  <Switch 
+                    id="merge-cover-page" 
+                    checked={includeCoverPage} 
+                    onCheckedChange={setIncludeCoverPage} 
+                  />
+                  <Label htmlFor="merge-cover-page" className="text-sm">Cover page</Label>
+                </div>
+              </div>
+            )}
+            
+            {fileCount > 0 && (
+              <Button variant="outline" className="w-full" asChild>
+                <a href={getJobArchiveUrl(jobId)} download>
+                  <Download className="mr-2 h-4 w-4" />
+                  Download all (ZIP)
+                </a>
+              </Button>
+            )}
+            
             <Button 
               variant="outline" 
               className="w-full" 
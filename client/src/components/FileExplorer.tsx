@@ -24,6 +24,8 @@ interface FileExplorerProps {
   onClose?: () => void;
 }
 
+const IMAGE_FILE_PATTERN = /\.(png|jpe?g|gif|webp)$/i;
+
 export default function FileExplorer({ initialDirectory, onClose }: FileExplorerProps) {
   const [directoryListing, setDirectoryListing] = useState<DirectoryListing | null>(null);
   const [loading, setLoading] = useState(true);
@@ -140,7 +142,7 @@ export default function FileExplorer({ initialDirectory, onClose }: FileExplorer
           {directoryListing && (
             <div className="flex items-center mb-4 overflow-x-auto py-2">
               <Badge variant="outline" className="px-3 py-1 mb-0">
-                Current: {directoryListing.directory}
+                Current: {directoryListing.directory} ({directoryListing.root})
               </Badge>
               
               {directoryListing.parentDirectory && (
@@ -289,12 +291,21 @@ export default function FileExplorer({ initialDirectory, onClose }: FileExplorer
           </DialogHeader>
           
           {selectedFile?.viewUrl && (
-            <div className="w-full h-[70vh] bg-gray-100 rounded overflow-hidden">
-              <iframe 
-                src={selectedFile.viewUrl} 
-                className="w-full h-full border-0"
-                title={`Preview of ${selectedFile.name}`}
-              />
+            <div className="w-full h-[70vh] bg-gray-100 rounded overflow-auto">
+              {IMAGE_FILE_PATTERN.test(selectedFile.name) ? (
+                // Full-page screenshots are tall, so they scroll at their natural width
+                <img 
+                  src={selectedFile.viewUrl} 
+                  className="w-full h-auto"
+                  alt={`Preview of ${selectedFile.name}`}
+                />
+              ) : (
+                <iframe 
+                  src={selectedFile.viewUrl} 
+                  className="w-full h-full border-0"
+                  title={`Preview of ${selectedFile.name}`}
+                />
+              )}
             </div>
           )}
           
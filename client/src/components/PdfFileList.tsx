@@ -5,6 +5,20 @@ import { Download, Eye, RefreshCw, File, Loader2 } from "lucide-react";
 import { listPdfFiles, PdfFile } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
 import { Skeleton } from "@/components/ui/skeleton";
+import { formatFileSize } from "@/lib/utils";
+import { format } from "date-fns";
+
+// What the view and download buttons call each output format
+const FORMAT_LABELS: Record<string, string> = {
+  pdf: "PDF",
+  mhtml: "MHTML",
+  html: "HTML",
+  markdown: "Markdown",
+  text: "Text",
+};
+
+// Browsers download MHTML rather than display it, so it gets no inline preview
+const NO_PREVIEW_FORMATS = ["mhtml"];
 
 interface PdfFileListProps {
   jobId: string;
@@ -93,7 +107,7 @@ export default function PdfFileList({ jobId }: PdfFileListProps) {
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
             <div className="border rounded-md p-1">
               <div className="bg-gray-50 px-4 py-2 border-b">
-                <h3 className="font-medium text-sm">PDF Files</h3>
+                <h3 className="font-medium text-sm">Files</h3>
               </div>
               <div className="max-h-60 overflow-y-auto">
                 {files.map((file, index) => (
@@ -116,7 +130,13 @@ export default function PdfFileList({ jobId }: PdfFileListProps) {
                 <>
                   <div>
                     <h3 className="font-medium mb-2 truncate">{selectedFile.name}</h3>
-                    <p className="text-sm text-gray-500 mb-4 truncate">Path: {selectedFile.path}</p>
+                    <p className="text-sm text-gray-500 truncate" title={selectedFile.url}>Source: {selectedFile.url}</p>
+                    <p className="text-sm text-gray-500 truncate">Path: {selectedFile.path}</p>
+                    <p className="text-sm text-gray-500 mb-4">
+                      {selectedFile.size !== undefined && formatFileSize(selectedFile.size)}
+                      {selectedFile.pageCount !== undefined && ` · ${selectedFile.pageCount} page${selectedFile.pageCount === 1 ? "" : "s"}`}
+                      {selectedFile.capturedAt && ` · captured ${format(new Date(selectedFile.capturedAt), "MM/dd/yyyy HH:mm")}`}
+                    </p>
                   </div>
                   <div className="space-y-2">
                     <Button 
@@ -124,7 +144,7 @@ export default function PdfFileList({ jobId }: PdfFileListProps) {
                       onClick={() => handleViewPdf(selectedFile)}
                     >
                       <Eye className="mr-2 h-4 w-4" />
-                      View PDF
+                      View {FORMAT_LABELS[selectedFile.format] ?? "Image"}
                     </Button>
                     <Button 
                       variant="outline" 
@@ -132,7 +152,7 @@ export default function PdfFileList({ jobId }: PdfFileListProps) {
                       onClick={() => handleDownloadPdf(selectedFile)}
                     >
                       <Download className="mr-2 h-4 w-4" />
-                      Download PDF
+                      Download {FORMAT_LABELS[selectedFile.format] ?? "Image"}
                     </Button>
                   </div>
                 </>
@@ -145,7 +165,7 @@ export default function PdfFileList({ jobId }: PdfFileListProps) {
           </div>
         )}
 
-        {selectedFile && (
+        {selectedFile && !NO_PREVIEW_FORMATS.includes(selectedFile.format) && (
           <div className="border rounded-md p-4">
             <h3 className="font-medium mb-4">Preview</h3>
             <div className="aspect-video bg-gray-100 rounded overflow-hidden">
@@ -1,16 +1,20 @@
 import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { FolderOpen, X, ArrowLeft } from "lucide-react";
+import { FolderOpen, X, ArrowLeft, RotateCcw } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { generatePdfs, cancelPdfGeneration } from "@/lib/api";
+import { generatePdfs, watchPdfJob, cancelPdfGeneration, retryFailedUrls } from "@/lib/api";
 import { UrlStatus, CompletionResults } from "@/pages/Home";
 import FileExplorer from "@/components/FileExplorer";
+import type { JobOptions, UrlStatus as ServerUrlStatus } from "@shared/schema";
 
 interface ProcessingCardProps {
   urlStatuses: UrlStatus[];
   setUrlStatuses: React.Dispatch<React.SetStateAction<UrlStatus[]>>;
   outputPath: string;
+  jobOptions: JobOptions;
+  // Set when following a job that was already started, e.g. after retrying its failed URLs
+  existingJobId?: string;
   onComplete: (results: CompletionResults, jobId?: string) => void;
   onCancel: () => void;
   onError: (message: string) => void;
@@ -20,6 +24,8 @@ export default function ProcessingCard({
   urlStatuses,
   setUrlStatuses,
   outputPath,
+  jobOptions,
+  existingJobId,
   onComplete,
   onCancel,
   onError,
@@ -27,7 +33,8 @@ export default function ProcessingCard({
   const { toast } = useToast();
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isCancelling, setIsCancelling] = useState(false);
-  const [jobId, setJobId] = useState<string | undefined>(undefined);
+  const [jobId, setJobId] = useState<string | undefined>(existingJobId);
+  const [isRetrying, setIsRetrying] = useState(false);
   const [showFileExplorer, setShowFileExplorer] = useState(false);
   
   // Calculate progress percentage
@@ -36,73 +43,55 @@ export default function ProcessingCard({
     : 0;
   
   const currentUrl = currentIndex < urlStatuses.length ? urlStatuses[currentIndex].url : "";
+  const processingCount = urlStatuses.filter(u => u.status === "processing").length;
   
   useEffect(() => {
     const processUrls = async () => {
-      try {
-        // Use a local variable to store jobId from the API response
-        let apiJobId: string | undefined;
-        
-        const results = await generatePdfs(
-          urlStatuses.map(u => u.url),
-          outputPath,
-          (index, status, error) => {
-            setUrlStatuses(prev => {
-              const newStatuses = [...prev];
-              newStatuses[index] = {
-                ...newStatuses[index],
-                status: status as "pending" | "processing" | "complete" | "failed",
-                error: error
-              };
-              return newStatuses;
-            });
-            
-            if (status === "processing") {
-              setCurrentIndex(index);
-            }
-            
-            // Only mark as complete when the job status is "completed"
-            if (status === "completed") {
-              console.log("Job completed from server, marking as complete");
-              
-              // Get counts directly from the API response instead of our local state
-              const successCount = results?.successCount || 0;
-              const failCount = results?.failCount || 0;
-              
-              console.log("Marking as complete with results:", { 
-                successful: successCount, 
-                failed: failCount, 
-                outputPath 
-              });
-              
-              // Use the stored API job ID for the callback
-              onComplete({
-                successful: successCount,
-                failed: failCount,
-                outputPath
-              }, apiJobId);
-            }
-          }
-        );
+      const handleProgress = (index: number, urlStatus: ServerUrlStatus) => {
+        setUrlStatuses(prev => {
+          const newStatuses = [...prev];
+          newStatuses[index] = {
+            ...newStatuses[index],
+            status: urlStatus.status,
+            error: urlStatus.error,
+            attempt: urlStatus.attempt,
+            maxAttempts: urlStatus.maxAttempts,
+            attempts: urlStatus.attempts
+          };
+          return newStatuses;
+        });
         
-        // Store the job ID for potential cancellation
-        if (results && results.jobId) {
-          apiJobId = results.jobId;
-          setJobId(results.jobId);
+        if (urlStatus.status === "processing") {
+          setCurrentIndex(index);
         }
+      };
+      
+      try {
+        // Follow an existing job (after a retry) or start a new one
+        const results = existingJobId
+          ? await watchPdfJob(existingJobId, handleProgress)
+          : await generatePdfs(
+              urlStatuses.map(u => u.url),
+              outputPath,
+              jobOptions,
+              handleProgress,
+              setJobId
+            );
+        
+        // Following the job only resolves once the server reports it as finished
+        setJobId(results.jobId);
+        onComplete({
+          successful: results.successCount,
+          failed: results.failCount,
+          outputPath
+        }, results.jobId);
       } catch (error) {
         onError((error as Error).message || "Failed to process URLs");
       }
     };
     
+    // Leaving the card doesn't cancel the job; it keeps running and stays in the job history
     processUrls();
-    
-    return () => {
-      // Cleanup - cancel the operation if component unmounts
-      if (jobId) {
-        cancelPdfGeneration(jobId).catch(console.error);
-      }
-    };
   }, []);
   
   const handleCancel = async () => {
@@ -130,11 +119,36 @@ export default function ProcessingCard({
     }
   };
   
+  // Failed URLs go back into the running job's queue
+  const handleRetryFailed = async () => {
+    if (!jobId) {
+      return;
+    }
+    
+    try {
+      setIsRetrying(true);
+      const { retried } = await retryFailedUrls(jobId);
+      toast({
+        title: "Retrying failed URLs",
+        description: `${retried} URL${retried === 1 ? "" : "s"} queued again`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error retrying",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+  
   const handleOpenFolder = () => {
     setShowFileExplorer(true);
   };
 
   const completedCount = urlStatuses.filter(u => u.status === "complete" || u.status === "failed").length;
+  const failedCount = urlStatuses.filter(u => u.status === "failed").length;
   
   if (showFileExplorer) {
     return (
@@ -155,6 +169,7 @@ export default function ProcessingCard({
           <div className="flex justify-between mb-1">
             <span className="text-sm font-medium text-gray-700">
               Processing: {currentUrl}
+              {processingCount > 1 && ` (+${processingCount - 1} more)`}
             </span>
             <span className="text-sm font-medium text-gray-700">
               {completedCount}/{urlStatuses.length}
@@ -180,8 +195,15 @@ export default function ProcessingCard({
           <div className="divide-y">
             {urlStatuses.map((urlStatus, index) => (
               <div key={index} className="px-4 py-3 flex justify-between items-center">
-                <span className="text-sm font-mono truncate max-w-xs">{urlStatus.url}</span>
-                <StatusBadge status={urlStatus.status} />
+                <div className="min-w-0">
+                  <p className="text-sm font-mono truncate max-w-xs">{urlStatus.url}</p>
+                  {urlStatus.error && (urlStatus.status === "failed" || urlStatus.status === "retrying") && (
+                    <p className="text-xs text-red-600 truncate max-w-xs" title={urlStatus.error}>
+                      {urlStatus.error}
+                    </p>
+                  )}
+                </div>
+                <StatusBadge urlStatus={urlStatus} />
               </div>
             ))}
           </div>
@@ -206,6 +228,17 @@ export default function ProcessingCard({
               <ArrowLeft className="h-4 w-4 mr-2" />
               Back
             </Button>
+            
+            {failedCount > 0 && jobId && (
+              <Button 
+                variant="outline" 
+                onClick={handleRetryFailed} 
+                disabled={isRetrying}
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Retry failed ({failedCount})
+              </Button>
+            )}
           </div>
           
           {progressPercentage > 0 && (
@@ -222,7 +255,10 @@ export default function ProcessingCard({
   );
 }
 
-function StatusBadge({ status }: { status: string }) {
+function StatusBadge({ urlStatus }: { urlStatus: UrlStatus }) {
+  const { status, attempt, maxAttempts } = urlStatus;
+  const attemptLabel = attempt && maxAttempts && maxAttempts > 1 ? ` (${attempt}/${maxAttempts})` : "";
+  
   switch (status) {
     case "complete":
       return (
@@ -234,7 +270,13 @@ function StatusBadge({ status }: { status: string }) {
       return (
         <span className="text-xs px-2 py-1 rounded-full bg-blue-100 text-blue-800 flex items-center">
           <div className="h-2 w-2 bg-blue-500 rounded-full mr-1 animate-pulse"></div>
-          Processing
+          Processing{attempt && attempt > 1 ? attemptLabel : ""}
+        </span>
+      );
+    case "retrying":
+      return (
+        <span className="text-xs px-2 py-1 rounded-full bg-amber-100 text-amber-800">
+          Retrying{attempt && maxAttempts ? ` (${attempt + 1}/${maxAttempts})` : ""}
         </span>
       );
     case "failed":
@@ -0,0 +1,68 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { getQuotaUsage } from "@/lib/api";
+import { formatFileSize } from "@/lib/utils";
+import type { ProcessingStatus } from "@/pages/Home";
+
+interface QuotaReadoutProps {
+  // Usage changes as jobs start and finish, so it is re-read whenever this does
+  processingStatus: ProcessingStatus;
+}
+
+function QuotaMeter({ label, used, limit, detail }: { label: string; used: number; limit: number; detail: string }) {
+  const percent = Math.min(100, (used / limit) * 100);
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-600 mb-1">
+        <span>{label}</span>
+        <span className={used >= limit ? "text-red-600 font-medium" : ""}>{detail}</span>
+      </div>
+      <Progress value={percent} className="h-2" />
+    </div>
+  );
+}
+
+export default function QuotaReadout({ processingStatus }: QuotaReadoutProps) {
+  const { data: usage, refetch } = useQuery({
+    queryKey: ["/api/quota"],
+    queryFn: getQuotaUsage,
+  });
+
+  useEffect(() => {
+    refetch();
+  }, [processingStatus]);
+
+  if (!usage) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="pt-4 pb-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <QuotaMeter
+            label="Running jobs"
+            used={usage.runningJobs}
+            limit={usage.maxConcurrentJobs}
+            detail={`${usage.runningJobs} of ${usage.maxConcurrentJobs}`}
+          />
+          <QuotaMeter
+            label="Jobs in the past hour"
+            used={usage.jobsThisHour}
+            limit={usage.maxJobsPerHour}
+            detail={`${usage.jobsThisHour} of ${usage.maxJobsPerHour}`}
+          />
+          <QuotaMeter
+            label="Stored files"
+            used={usage.storedBytes}
+            limit={usage.maxStoredBytes}
+            detail={`${formatFileSize(usage.storedBytes)} of ${formatFileSize(usage.maxStoredBytes)}`}
+          />
+        </div>
+        <p className="text-xs text-gray-500 mt-3">Up to {usage.maxUrlsPerJob} URLs per job</p>
+      </CardContent>
+    </Card>
+  );
+}
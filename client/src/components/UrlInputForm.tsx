@@ -8,14 +8,75 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { FileTextIcon, FolderOpenIcon } from "lucide-react";
+import { FileTextIcon, FolderOpenIcon, ChevronDown, Settings2 } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import {
+  paperFormats,
+  headerFooterPresets,
+  filenameTemplateSchema,
+  filenameCollisionStrategies,
+  type FilenameCollisionStrategy,
+  type JobOptions,
+  type OutputFormat,
+  type PdfOptions,
+  type RetryOptions,
+} from "@shared/schema";
 
 // Updated schema with selected preset option
 const formSchema = z.object({
   urls: z.string().min(1, { message: "Please enter at least one URL" }),
   outputPathPreset: z.string(),
   outputPath: z.string().min(1, { message: "Please specify an output directory" }),
+  retryAttempts: z.coerce.number().int().min(1, { message: "At least one attempt" }).max(10, { message: "At most 10 attempts" }),
+  retryBackoffSeconds: z.coerce.number().min(0, { message: "Backoff cannot be negative" }).max(300, { message: "At most 300 seconds" }),
+  retryOnTimeout: z.boolean(),
+  retryOnNetwork: z.boolean(),
+  retryOnOther: z.boolean(),
+  concurrency: z.coerce.number().int().min(1, { message: "At least one page at a time" }).max(16, { message: "At most 16 pages at a time" }),
+  // Output formats
+  outputPdf: z.boolean(),
+  outputPng: z.boolean(),
+  outputJpeg: z.boolean(),
+  outputWebp: z.boolean(),
+  outputMhtml: z.boolean(),
+  outputHtml: z.boolean(),
+  outputMarkdown: z.boolean(),
+  outputText: z.boolean(),
+  imageQuality: z.coerce.number().int().min(1, { message: "Quality must be at least 1" }).max(100, { message: "Quality can be at most 100" }),
+  // File naming; an empty template keeps the default names
+  filenameTemplate: z.string().superRefine((value, ctx) => {
+    const result = value.trim() === "" ? null : filenameTemplateSchema.safeParse(value);
+    if (result && !result.success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: result.error.issues[0].message });
+    }
+  }),
+  filenameCollision: z.enum(filenameCollisionStrategies),
+  // PDF render options
+  paperFormat: z.string(),
+  paperWidth: z.string(),
+  paperHeight: z.string(),
+  orientation: z.enum(["portrait", "landscape"]),
+  marginPreset: z.enum(["default", "none", "custom"]),
+  marginTop: z.string(),
+  marginRight: z.string(),
+  marginBottom: z.string(),
+  marginLeft: z.string(),
+  scale: z.coerce.number().min(0.1, { message: "Scale must be at least 0.1" }).max(2, { message: "Scale can be at most 2" }),
+  printBackground: z.boolean(),
+  preferCSSPageSize: z.boolean(),
+  pageRanges: z.string(),
+  headerFooter: z.enum(["none", ...headerFooterPresets, "custom"]),
+  headerTemplate: z.string(),
+  footerTemplate: z.string(),
+}).refine(data => data.outputPdf || data.outputPng || data.outputJpeg || data.outputWebp
+  || data.outputMhtml || data.outputHtml || data.outputMarkdown || data.outputText, {
+  message: "Choose at least one output format",
+  path: ["outputPdf"],
+}).refine(data => data.paperFormat !== "custom" || (data.paperWidth.trim() !== "" && data.paperHeight.trim() !== ""), {
+  message: "Enter both a width and a height for a custom paper size",
+  path: ["paperWidth"],
 });
 
 type FormData = z.infer<typeof formSchema>;
@@ -29,11 +90,104 @@ const OUTPUT_PRESETS = [
   { id: "custom", label: "Custom location...", path: "" },
 ];
 
+const HEADER_FOOTER_OPTIONS: { id: FormData["headerFooter"]; label: string }[] = [
+  { id: "none", label: "None" },
+  { id: "provenance", label: "Source URL, capture time and page numbers" },
+  { id: "source", label: "Source URL and capture time" },
+  { id: "page-numbers", label: "Page numbers only" },
+  { id: "custom", label: "Custom templates..." },
+];
+
+const RETRY_ERROR_FIELDS = [
+  { name: "retryOnTimeout", label: "Timeouts" },
+  { name: "retryOnNetwork", label: "Network errors" },
+  { name: "retryOnOther", label: "Other errors" },
+] as const;
+
+const OUTPUT_FORMAT_FIELDS = [
+  { name: "outputPdf", format: "pdf", label: "PDF" },
+  { name: "outputPng", format: "png", label: "PNG screenshot" },
+  { name: "outputJpeg", format: "jpeg", label: "JPEG screenshot" },
+  { name: "outputWebp", format: "webp", label: "WebP screenshot" },
+  { name: "outputMhtml", format: "mhtml", label: "MHTML archive" },
+  { name: "outputHtml", format: "html", label: "Self-contained HTML" },
+  { name: "outputMarkdown", format: "markdown", label: "Main content as Markdown" },
+  { name: "outputText", format: "text", label: "Main content as text" },
+] as const;
+
+const FILENAME_COLLISION_OPTIONS: { id: FilenameCollisionStrategy; label: string }[] = [
+  { id: "suffix", label: "Add a number (name-1.pdf)" },
+  { id: "overwrite", label: "Overwrite the existing file" },
+  { id: "skip", label: "Keep the existing file" },
+];
+
+const MARGIN_SIDES = [
+  { name: "marginTop", label: "Top" },
+  { name: "marginRight", label: "Right" },
+  { name: "marginBottom", label: "Bottom" },
+  { name: "marginLeft", label: "Left" },
+] as const;
+
 interface UrlInputFormProps {
-  onStartProcessing: (urls: string[], outputDir: string) => void;
+  onStartProcessing: (urls: string[], outputDir: string, options: JobOptions) => void;
   onError: (message: string) => void;
 }
 
+function buildRetryOptions(data: FormData): RetryOptions {
+  const retryOn: NonNullable<RetryOptions["retryOn"]> = [];
+  if (data.retryOnTimeout) retryOn.push("timeout");
+  if (data.retryOnNetwork) retryOn.push("network");
+  if (data.retryOnOther) retryOn.push("other");
+
+  return {
+    maxAttempts: data.retryAttempts,
+    backoffMs: Math.round(data.retryBackoffSeconds * 1000),
+    retryOn,
+  };
+}
+
+// Translate the form fields into the options sent to the server
+function buildPdfOptions(data: FormData): PdfOptions {
+  const pdfOptions: PdfOptions = {
+    landscape: data.orientation === "landscape",
+    scale: data.scale,
+    printBackground: data.printBackground,
+    preferCSSPageSize: data.preferCSSPageSize,
+  };
+
+  if (data.paperFormat === "custom") {
+    pdfOptions.width = data.paperWidth.trim();
+    pdfOptions.height = data.paperHeight.trim();
+  } else {
+    pdfOptions.format = data.paperFormat as PdfOptions["format"];
+  }
+
+  if (data.marginPreset === "none") {
+    pdfOptions.margin = { top: "0", right: "0", bottom: "0", left: "0" };
+  } else if (data.marginPreset === "custom") {
+    pdfOptions.margin = {
+      top: data.marginTop.trim() || undefined,
+      right: data.marginRight.trim() || undefined,
+      bottom: data.marginBottom.trim() || undefined,
+      left: data.marginLeft.trim() || undefined,
+    };
+  }
+
+  if (data.pageRanges.trim()) {
+    pdfOptions.pageRanges = data.pageRanges.trim();
+  }
+
+  if (data.headerFooter === "custom") {
+    pdfOptions.displayHeaderFooter = true;
+    pdfOptions.headerTemplate = data.headerTemplate.trim() || undefined;
+    pdfOptions.footerTemplate = data.footerTemplate.trim() || undefined;
+  } else if (data.headerFooter !== "none") {
+    pdfOptions.headerFooterPreset = data.headerFooter;
+  }
+
+  return pdfOptions;
+}
+
 export default function UrlInputForm({ onStartProcessing, onError }: UrlInputFormProps) {
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -45,9 +199,47 @@ export default function UrlInputForm({ onStartProcessing, onError }: UrlInputFor
       urls: "",
       outputPathPreset: "generated-pdfs",
       outputPath: "./generated-pdfs", // Default path
+      concurrency: 2,
+      outputPdf: true,
+      outputPng: false,
+      outputJpeg: false,
+      outputWebp: false,
+      outputMhtml: false,
+      outputHtml: false,
+      outputMarkdown: false,
+      outputText: false,
+      imageQuality: 80,
+      filenameTemplate: "",
+      filenameCollision: "suffix",
+      retryAttempts: 3,
+      retryBackoffSeconds: 5,
+      retryOnTimeout: true,
+      retryOnNetwork: true,
+      retryOnOther: false,
+      paperFormat: "A4",
+      paperWidth: "",
+      paperHeight: "",
+      orientation: "portrait",
+      marginPreset: "default",
+      marginTop: "0.4in",
+      marginRight: "0.4in",
+      marginBottom: "0.4in",
+      marginLeft: "0.4in",
+      scale: 1,
+      printBackground: true,
+      preferCSSPageSize: false,
+      pageRanges: "",
+      headerFooter: "none",
+      headerTemplate: "",
+      footerTemplate: "",
     },
   });
 
+  const paperFormat = form.watch("paperFormat");
+  const marginPreset = form.watch("marginPreset");
+  const headerFooter = form.watch("headerFooter");
+  const usesImageQuality = form.watch("outputJpeg") || form.watch("outputWebp");
+
   // Handle preset selection change
   const handlePresetChange = (value: string) => {
     const preset = OUTPUT_PRESETS.find(p => p.id === value);
@@ -103,7 +295,17 @@ export default function UrlInputForm({ onStartProcessing, onError }: UrlInputFor
         return;
       }
 
-      onStartProcessing(urls, data.outputPath);
+      onStartProcessing(urls, data.outputPath, {
+        pdfOptions: buildPdfOptions(data),
+        outputFormats: OUTPUT_FORMAT_FIELDS
+          .filter((outputField) => data[outputField.name])
+          .map((outputField): OutputFormat => outputField.format),
+        screenshot: usesImageQuality ? { quality: data.imageQuality } : undefined,
+        filenameTemplate: data.filenameTemplate.trim() || undefined,
+        filenameCollision: data.filenameCollision,
+        concurrency: data.concurrency,
+        retry: buildRetryOptions(data),
+      });
     } catch (error) {
       onError((error as Error).message || "An unexpected error occurred");
       setIsSubmitting(false);
@@ -181,7 +383,7 @@ export default function UrlInputForm({ onStartProcessing, onError }: UrlInputFor
                           />
                         </FormControl>
                       </div>
-                      <p className="text-sm text-gray-500">Enter a relative path starting with ./ </p>
+                      <p className="text-sm text-gray-500">Enter a path inside one of the save locations, e.g. ./generated-pdfs/reports</p>
                       <FormMessage />
                     </FormItem>
                   )}
@@ -189,6 +391,423 @@ export default function UrlInputForm({ onStartProcessing, onError }: UrlInputFor
               )}
             </div>
 
+            {/* PDF render options */}
+            <Collapsible>
+              <CollapsibleTrigger asChild>
+                <Button type="button" variant="ghost" className="w-full justify-between px-2">
+                  <span className="flex items-center font-medium">
+                    <Settings2 className="mr-2 h-4 w-4" />
+                    Output Options
+                  </span>
+                  <ChevronDown className="h-4 w-4" />
+                </Button>
+              </CollapsibleTrigger>
+              <CollapsibleContent className="space-y-4 pt-4">
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Output formats</p>
+                  <div className="flex flex-wrap gap-6">
+                    {OUTPUT_FORMAT_FIELDS.map((outputField) => (
+                      <FormField
+                        key={outputField.name}
+                        control={form.control}
+                        name={outputField.name}
+                        render={({ field }) => (
+                          <FormItem className="flex items-center gap-2 space-y-0">
+                            <FormControl>
+                              <Switch checked={field.value} onCheckedChange={field.onChange} />
+                            </FormControl>
+                            <FormLabel className="font-normal">{outputField.label}</FormLabel>
+                          </FormItem>
+                        )}
+                      />
+                    ))}
+                  </div>
+                  <p className="text-sm text-gray-500">Screenshots capture the full page after scrolling</p>
+                  {form.formState.errors.outputPdf && (
+                    <p className="text-sm font-medium text-destructive">{form.formState.errors.outputPdf.message}</p>
+                  )}
+                </div>
+
+                {usesImageQuality && (
+                  <FormField
+                    control={form.control}
+                    name="imageQuality"
+                    render={({ field }) => (
+                      <FormItem className="space-y-2">
+                        <FormLabel>Image Quality (JPEG and WebP)</FormLabel>
+                        <FormControl>
+                          <Input {...field} type="number" min="1" max="100" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="filenameTemplate"
+                    render={({ field }) => (
+                      <FormItem className="space-y-2">
+                        <FormLabel>File Names</FormLabel>
+                        <FormControl>
+                          <Input {...field} className="font-mono text-sm" placeholder="{domain}_{timestamp}" />
+                        </FormControl>
+                        <p className="text-sm text-gray-500">
+                          Tokens: {"{domain} {path} {query} {title} {index} {date} {time} {timestamp} {jobId} {hash}"}.
+                          Use / for folders, e.g. {"{domain}/{date}/{path}"}
+                        </p>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="filenameCollision"
+                    render={({ field }) => (
+                      <FormItem className="space-y-2">
+                        <FormLabel>If a File Exists</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {FILENAME_COLLISION_OPTIONS.map((option) => (
+                              <SelectItem key={option.id} value={option.id}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="paperFormat"
+                    render={({ field }) => (
+                      <FormItem className="space-y-2">
+                        <FormLabel>Paper Size</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {paperFormats.map((format) => (
+                              <SelectItem key={format} value={format}>
+                                {format}
+                              </SelectItem>
+                            ))}
+                            <SelectItem value="custom">Custom size...</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="orientation"
+                    render={({ field }) => (
+                      <FormItem className="space-y-2">
+                        <FormLabel>Orientation</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="portrait">Portrait</SelectItem>
+                            <SelectItem value="landscape">Landscape</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {paperFormat === "custom" && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="paperWidth"
+                      render={({ field }) => (
+                        <FormItem className="space-y-2">
+                          <FormLabel>Width</FormLabel>
+                          <FormControl>
+                            <Input {...field} className="font-mono text-sm" placeholder="8.5in" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="paperHeight"
+                      render={({ field }) => (
+                        <FormItem className="space-y-2">
+                          <FormLabel>Height</FormLabel>
+                          <FormControl>
+                            <Input {...field} className="font-mono text-sm" placeholder="11in" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                )}
+
+                <FormField
+                  control={form.control}
+                  name="marginPreset"
+                  render={({ field }) => (
+                    <FormItem className="space-y-2">
+                      <FormLabel>Margins</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="default">Default (0.4in)</SelectItem>
+                          <SelectItem value="none">None</SelectItem>
+                          <SelectItem value="custom">Custom...</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {marginPreset === "custom" && (
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {MARGIN_SIDES.map((side) => (
+                      <FormField
+                        key={side.name}
+                        control={form.control}
+                        name={side.name}
+                        render={({ field }) => (
+                          <FormItem className="space-y-2">
+                            <FormLabel>{side.label}</FormLabel>
+                            <FormControl>
+                              <Input {...field} className="font-mono text-sm" placeholder="0.4in" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    ))}
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="scale"
+                    render={({ field }) => (
+                      <FormItem className="space-y-2">
+                        <FormLabel>Scale</FormLabel>
+                        <FormControl>
+                          <Input {...field} type="number" step="0.05" min="0.1" max="2" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="pageRanges"
+                    render={({ field }) => (
+                      <FormItem className="space-y-2">
+                        <FormLabel>Page Ranges</FormLabel>
+                        <FormControl>
+                          <Input {...field} className="font-mono text-sm" placeholder="All pages, or e.g. 1-5, 8" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="concurrency"
+                  render={({ field }) => (
+                    <FormItem className="space-y-2">
+                      <FormLabel>Parallel Pages</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="number" min="1" max="16" />
+                      </FormControl>
+                      <p className="text-sm text-gray-500">How many URLs to render at the same time (the server may use fewer)</p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="retryAttempts"
+                    render={({ field }) => (
+                      <FormItem className="space-y-2">
+                        <FormLabel>Attempts per URL</FormLabel>
+                        <FormControl>
+                          <Input {...field} type="number" min="1" max="10" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="retryBackoffSeconds"
+                    render={({ field }) => (
+                      <FormItem className="space-y-2">
+                        <FormLabel>Retry Delay (seconds)</FormLabel>
+                        <FormControl>
+                          <Input {...field} type="number" min="0" max="300" />
+                        </FormControl>
+                        <p className="text-sm text-gray-500">Doubles after each failed attempt</p>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Retry on</p>
+                  <div className="flex flex-wrap gap-6">
+                    {RETRY_ERROR_FIELDS.map((retryField) => (
+                      <FormField
+                        key={retryField.name}
+                        control={form.control}
+                        name={retryField.name}
+                        render={({ field }) => (
+                          <FormItem className="flex items-center gap-2 space-y-0">
+                            <FormControl>
+                              <Switch checked={field.value} onCheckedChange={field.onChange} />
+                            </FormControl>
+                            <FormLabel className="font-normal">{retryField.label}</FormLabel>
+                          </FormItem>
+                        )}
+                      />
+                    ))}
+                  </div>
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="headerFooter"
+                  render={({ field }) => (
+                    <FormItem className="space-y-2">
+                      <FormLabel>Header & Footer</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {HEADER_FOOTER_OPTIONS.map((option) => (
+                            <SelectItem key={option.id} value={option.id}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {headerFooter !== "none" && marginPreset === "none" && (
+                        <p className="text-sm text-amber-600">Headers and footers are drawn inside the margins, so they are hidden with no margins.</p>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {headerFooter === "custom" && (
+                  <div className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="headerTemplate"
+                      render={({ field }) => (
+                        <FormItem className="space-y-2">
+                          <FormLabel>Header Template</FormLabel>
+                          <FormControl>
+                            <Textarea
+                              {...field}
+                              className="h-20 font-mono text-sm"
+                              placeholder='<div style="font-size: 8px">{{sourceUrl}}</div>'
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="footerTemplate"
+                      render={({ field }) => (
+                        <FormItem className="space-y-2">
+                          <FormLabel>Footer Template</FormLabel>
+                          <FormControl>
+                            <Textarea
+                              {...field}
+                              className="h-20 font-mono text-sm"
+                              placeholder='<div style="font-size: 8px"><span class="pageNumber"></span> / <span class="totalPages"></span></div>'
+                            />
+                          </FormControl>
+                          <p className="text-sm text-gray-500">
+                            HTML with {"{{sourceUrl}}"}, {"{{capturedAt}}"} and the pageNumber, totalPages, title and date classes
+                          </p>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                )}
+
+                <FormField
+                  control={form.control}
+                  name="printBackground"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between">
+                      <FormLabel>Print background graphics</FormLabel>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="preferCSSPageSize"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between">
+                      <FormLabel>Use page size defined in CSS</FormLabel>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              </CollapsibleContent>
+            </Collapsible>
+
             <div className="pt-2">
               <Button
                 type="submit"
@@ -0,0 +1,63 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { useMutation, useQuery, type UseMutationResult } from "@tanstack/react-query";
+import { getQueryFn, queryClient } from "@/lib/queryClient";
+import { login, logout, register } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import type { PublicUser, RegisterUser } from "@shared/schema";
+
+interface AuthContextValue {
+  // null once the server has said nobody is logged in
+  user: PublicUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, RegisterUser>;
+  registerMutation: UseMutationResult<PublicUser, Error, RegisterUser>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: login,
+    onSuccess: (loggedIn) => queryClient.setQueryData(["/api/user"], loggedIn),
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: register,
+    onSuccess: (registered) => queryClient.setQueryData(["/api/user"], registered),
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: logout,
+    onSuccess: () => {
+      // Nothing cached for the previous user should outlive the session
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], null);
+    },
+    onError: (error) => {
+      toast({ title: "Logout failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{ user: user ?? null, isLoading, loginMutation, registerMutation, logoutMutation }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
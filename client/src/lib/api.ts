@@ -1,10 +1,32 @@
 import { apiRequest } from "./queryClient";
+import type {
+  ApiKeySummary,
+  CreateApiKeyRequest,
+  JobOptions,
+  JobStatusEvent,
+  ListJobsQuery,
+  MergedFile,
+  OutputFormat,
+  PdfJob,
+  PdfJobSummary,
+  PublicUser,
+  QuotaUsage,
+  RegisterUser,
+  UrlStatus,
+  UrlStatusEvent,
+} from "@shared/schema";
 
 let isCancelled = false;
 
 export interface PdfFile {
   name: string;
   path: string;
+  format: OutputFormat;
+  // Source URL and details recorded when the file was rendered
+  url: string;
+  size?: number;
+  pageCount?: number;
+  capturedAt?: string;
   viewUrl: string;
   downloadUrl: string;
 }
@@ -12,7 +34,9 @@ export interface PdfFile {
 export async function generatePdfs(
   urls: string[],
   outputPath: string,
-  progressCallback: (index: number, status: string, error?: string) => void
+  options: JobOptions,
+  progressCallback: (index: number, urlStatus: UrlStatus) => void,
+  onJobStarted?: (jobId: string) => void
 ): Promise<{ successCount: number; failCount: number; jobId: string }> {
   isCancelled = false;
 
@@ -21,21 +45,94 @@ export async function generatePdfs(
     const response = await apiRequest("POST", "/api/pdf/generate", {
       urls,
       outputPath,
+      ...options,
     });
 
     const jobId = await response.json();
+    onJobStarted?.(jobId);
 
-    // Poll for status updates
-    const result = await pollJobStatus(jobId, progressCallback);
+    // Follow status updates until the job finishes
+    const result = await followJob(jobId, progressCallback);
     return { ...result, jobId };
   } catch (error) {
     throw new Error(`Failed to start PDF generation: ${(error as Error).message}`);
   }
 }
 
+// Follow an existing job, e.g. one whose failed URLs were re-queued
+export async function watchPdfJob(
+  jobId: string,
+  progressCallback: (index: number, urlStatus: UrlStatus) => void
+): Promise<{ successCount: number; failCount: number; jobId: string }> {
+  isCancelled = false;
+  const result = await followJob(jobId, progressCallback);
+  return { ...result, jobId };
+}
+
+// Stream a job's progress, falling back to polling when the event stream is unavailable
+async function followJob(
+  jobId: string,
+  progressCallback: (index: number, urlStatus: UrlStatus) => void
+): Promise<{ successCount: number; failCount: number }> {
+  if (typeof EventSource === "undefined") {
+    return pollJobStatus(jobId, progressCallback);
+  }
+
+  try {
+    return await streamJobStatus(jobId, progressCallback);
+  } catch (error) {
+    if (isCancelled) {
+      throw error;
+    }
+    console.warn("Job event stream failed, falling back to polling:", error);
+    return pollJobStatus(jobId, progressCallback);
+  }
+}
+
+function streamJobStatus(
+  jobId: string,
+  progressCallback: (index: number, urlStatus: UrlStatus) => void
+): Promise<{ successCount: number; failCount: number }> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/pdf/events/${jobId}`);
+
+    source.addEventListener("snapshot", (event) => {
+      const snapshot: { urlStatuses: UrlStatus[] } = JSON.parse((event as MessageEvent).data);
+      snapshot.urlStatuses.forEach((urlStatus, index) => {
+        progressCallback(index, urlStatus);
+      });
+    });
+
+    source.addEventListener("url", (event) => {
+      const { index, urlStatus }: UrlStatusEvent = JSON.parse((event as MessageEvent).data);
+      progressCallback(index, urlStatus);
+    });
+
+    source.addEventListener("done", (event) => {
+      const summary: JobStatusEvent = JSON.parse((event as MessageEvent).data);
+      source.close();
+
+      if (isCancelled) {
+        reject(new Error("PDF generation was cancelled"));
+      } else {
+        resolve({
+          successCount: summary.successCount || 0,
+          failCount: summary.failCount || 0,
+        });
+      }
+    });
+
+    // EventSource would reconnect on its own; hand over to polling instead
+    source.onerror = () => {
+      source.close();
+      reject(new Error("Job event stream was interrupted"));
+    };
+  });
+}
+
 async function pollJobStatus(
   jobId: string,
-  progressCallback: (index: number, status: string, error?: string) => void
+  progressCallback: (index: number, urlStatus: UrlStatus) => void
 ): Promise<{ successCount: number; failCount: number }> {
   let isDone = false;
   let result = { successCount: 0, failCount: 0 };
@@ -49,8 +146,8 @@ async function pollJobStatus(
 
       // Update progress for each URL
       if (status.urlStatuses) {
-        status.urlStatuses.forEach((urlStatus: any, index: number) => {
-          progressCallback(index, urlStatus.status, urlStatus.error);
+        status.urlStatuses.forEach((urlStatus: UrlStatus, index: number) => {
+          progressCallback(index, urlStatus);
         });
       }
 
@@ -91,6 +188,67 @@ export async function cancelPdfGeneration(jobId: string): Promise<void> {
   }
 }
 
+// Re-queue the failed URLs of a job, into the same job or a new linked one
+export async function retryFailedUrls(
+  jobId: string,
+  mode: "same" | "child" = "same"
+): Promise<{ jobId: string; retried: number }> {
+  try {
+    const response = await apiRequest("POST", `/api/pdf/retry/${jobId}`, { mode });
+    return await response.json();
+  } catch (error) {
+    throw new Error(`Failed to retry failed URLs: ${(error as Error).message}`);
+  }
+}
+
+export interface MergedPdf extends MergedFile {
+  viewUrl: string;
+  downloadUrl: string;
+}
+
+// Combine a finished job's PDFs into one document, optionally with a cover page
+export async function mergeJobPdfs(jobId: string, coverPage: boolean): Promise<MergedPdf> {
+  try {
+    const response = await apiRequest("POST", `/api/pdf/merge/${jobId}`, { coverPage });
+    return await response.json();
+  } catch (error) {
+    throw new Error(`Failed to merge PDFs: ${(error as Error).message}`);
+  }
+}
+
+export interface JobListing {
+  jobs: PdfJobSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// Get a page of past jobs, newest first
+export async function listJobs(query: Partial<ListJobsQuery>): Promise<JobListing> {
+  try {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== "") {
+        params.set(key, String(value));
+      }
+    });
+    const response = await apiRequest("GET", `/api/pdf/jobs?${params.toString()}`, undefined);
+    return await response.json();
+  } catch (error) {
+    throw new Error(`Failed to list jobs: ${(error as Error).message}`);
+  }
+}
+
+// Get the full record of a single job
+export async function getJob(jobId: string): Promise<PdfJob> {
+  try {
+    const response = await apiRequest("GET", `/api/pdf/status/${jobId}`, undefined);
+    return await response.json();
+  } catch (error) {
+    throw new Error(`Failed to load job: ${(error as Error).message}`);
+  }
+}
+
 // Get list of PDF files generated for a job
 export async function listPdfFiles(jobId: string): Promise<PdfFile[]> {
   try {
@@ -107,6 +265,11 @@ export function getPdfViewUrl(filename: string, jobId: string): string {
   return `/api/pdf/view/${encodeURIComponent(filename)}?jobId=${jobId}`;
 }
 
+// Get URL for downloading all of a job's files as a ZIP
+export function getJobArchiveUrl(jobId: string): string {
+  return `/api/pdf/archive/${jobId}`;
+}
+
 // Get URL for downloading a PDF file
 export function getPdfDownloadUrl(filename: string, jobId: string): string {
   return `/api/pdf/download/${encodeURIComponent(filename)}?jobId=${jobId}`;
@@ -124,6 +287,8 @@ export interface ProjectFile {
 
 export interface DirectoryListing {
   directory: string;
+  // Name of the file root the directory belongs to
+  root: string;
   files: ProjectFile[];
   parentDirectory: string | null;
 }
@@ -147,3 +312,79 @@ export async function deleteFile(filePath: string): Promise<void> {
     throw new Error(`Failed to delete file: ${(error as Error).message}`);
   }
 }
+
+// The server's message from a failed request, e.g. `401: {"message":"..."}`
+function serverMessage(error: unknown): string {
+  const text = (error as Error).message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(text).message ?? text;
+  } catch {
+    return text;
+  }
+}
+
+export async function login(credentials: RegisterUser): Promise<PublicUser> {
+  try {
+    const response = await apiRequest("POST", "/api/login", credentials);
+    return await response.json();
+  } catch (error) {
+    throw new Error(serverMessage(error));
+  }
+}
+
+export async function register(credentials: RegisterUser): Promise<PublicUser> {
+  try {
+    const response = await apiRequest("POST", "/api/register", credentials);
+    return await response.json();
+  } catch (error) {
+    throw new Error(serverMessage(error));
+  }
+}
+
+export async function logout(): Promise<void> {
+  try {
+    await apiRequest("POST", "/api/logout");
+  } catch (error) {
+    throw new Error(`Failed to log out: ${serverMessage(error)}`);
+  }
+}
+
+export interface CreatedApiKey extends ApiKeySummary {
+  // Shown once; the server only keeps a hash
+  secret: string;
+}
+
+export async function listApiKeys(): Promise<ApiKeySummary[]> {
+  try {
+    const response = await apiRequest("GET", "/api/keys");
+    return await response.json();
+  } catch (error) {
+    throw new Error(`Failed to list API keys: ${serverMessage(error)}`);
+  }
+}
+
+export async function createApiKey(request: CreateApiKeyRequest): Promise<CreatedApiKey> {
+  try {
+    const response = await apiRequest("POST", "/api/keys", request);
+    return await response.json();
+  } catch (error) {
+    throw new Error(`Failed to create API key: ${serverMessage(error)}`);
+  }
+}
+
+export async function revokeApiKey(id: number): Promise<void> {
+  try {
+    await apiRequest("DELETE", `/api/keys/${id}`);
+  } catch (error) {
+    throw new Error(`Failed to revoke API key: ${serverMessage(error)}`);
+  }
+}
+
+export async function getQuotaUsage(): Promise<QuotaUsage> {
+  try {
+    const response = await apiRequest("GET", "/api/quota");
+    return await response.json();
+  } catch (error) {
+    throw new Error(`Failed to get quota usage: ${serverMessage(error)}`);
+  }
+}
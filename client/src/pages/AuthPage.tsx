@@ -0,0 +1,124 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Redirect } from "wouter";
+import { Loader2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useAuth } from "@/hooks/use-auth";
+import { registerUserSchema, type RegisterUser } from "@shared/schema";
+
+// Login only checks the fields are filled in; the server decides whether they match
+const loginSchema = z.object({
+  username: z.string().trim().min(1, "Enter your username"),
+  password: z.string().min(1, "Enter your password"),
+});
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+
+  const loginForm = useForm<RegisterUser>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { username: "", password: "" },
+  });
+  const registerForm = useForm<RegisterUser>({
+    resolver: zodResolver(registerUserSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-md">
+      <header className="mb-8 text-center">
+        <h1 className="text-2xl font-semibold text-gray-900 mb-2">URL to PDF Converter</h1>
+        <p className="text-gray-600">Log in to convert pages and see your jobs</p>
+      </header>
+
+      <Card>
+        <CardContent className="pt-6">
+          <Tabs defaultValue="login">
+            <TabsList className="grid w-full grid-cols-2 mb-6">
+              <TabsTrigger value="login">Log in</TabsTrigger>
+              <TabsTrigger value="register">Create account</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="login">
+              <Form {...loginForm}>
+                <form onSubmit={loginForm.handleSubmit((values) => loginMutation.mutate(values))} className="space-y-4">
+                  <CredentialFields form={loginForm} passwordAutoComplete="current-password" />
+                  {loginMutation.error && (
+                    <p className="text-sm text-red-500">{loginMutation.error.message}</p>
+                  )}
+                  <Button type="submit" className="w-full" disabled={loginMutation.isPending}>
+                    {loginMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Log in
+                  </Button>
+                </form>
+              </Form>
+            </TabsContent>
+
+            <TabsContent value="register">
+              <Form {...registerForm}>
+                <form onSubmit={registerForm.handleSubmit((values) => registerMutation.mutate(values))} className="space-y-4">
+                  <CredentialFields form={registerForm} passwordAutoComplete="new-password" />
+                  {registerMutation.error && (
+                    <p className="text-sm text-red-500">{registerMutation.error.message}</p>
+                  )}
+                  <Button type="submit" className="w-full" disabled={registerMutation.isPending}>
+                    {registerMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Create account
+                  </Button>
+                </form>
+              </Form>
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function CredentialFields({
+  form,
+  passwordAutoComplete,
+}: {
+  form: ReturnType<typeof useForm<RegisterUser>>;
+  passwordAutoComplete: string;
+}) {
+  return (
+    <>
+      <FormField
+        control={form.control}
+        name="username"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Username</FormLabel>
+            <FormControl>
+              <Input autoComplete="username" {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="password"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Password</FormLabel>
+            <FormControl>
+              <Input type="password" autoComplete={passwordAutoComplete} {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </>
+  );
+}
@@ -0,0 +1,214 @@
+import { useState, useEffect } from "react";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { ArrowLeft, ChevronLeft, ChevronRight, Loader2, RefreshCw, Search } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { listJobs, JobListing } from "@/lib/api";
+import { jobStatuses, type ListJobsQuery } from "@shared/schema";
+
+const PAGE_SIZE = 20;
+
+export default function History() {
+  const [listing, setListing] = useState<JobListing | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string>("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const { toast } = useToast();
+
+  const loadJobs = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await listJobs({
+        status: status === "all" ? undefined : status as ListJobsQuery["status"],
+        from: from || undefined,
+        to: to || undefined,
+        q: search.trim() || undefined,
+        page,
+        pageSize: PAGE_SIZE,
+      });
+      setListing(result);
+    } catch (err) {
+      setError((err as Error).message);
+      toast({
+        title: "Error loading jobs",
+        description: (err as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadJobs();
+  }, [status, from, to, page]);
+
+  const handleSearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (page === 1) {
+      loadJobs();
+    } else {
+      setPage(1);
+    }
+  };
+
+  const pageCount = listing ? Math.max(1, Math.ceil(listing.total / PAGE_SIZE)) : 1;
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <header className="mb-8 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900 mb-2">Job History</h1>
+          <p className="text-gray-600">Past conversions and their generated files</p>
+        </div>
+        <Link href="/">
+          <Button variant="outline">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            New Conversion
+          </Button>
+        </Link>
+      </header>
+
+      <Card className="mb-6">
+        <CardContent className="pt-6">
+          {/* Filters */}
+          <form onSubmit={handleSearch} className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-4">
+            <div className="md:col-span-4 flex gap-2">
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search URLs..."
+              />
+              <Button type="submit" variant="outline">
+                <Search className="h-4 w-4 mr-2" />
+                Search
+              </Button>
+              <Button type="button" variant="outline" onClick={loadJobs}>
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            </div>
+            <Select value={status} onValueChange={(value) => { setStatus(value); setPage(1); }}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {jobStatuses.map((jobStatus) => (
+                  <SelectItem key={jobStatus} value={jobStatus} className="capitalize">
+                    {jobStatus}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              value={from}
+              onChange={(e) => { setFrom(e.target.value); setPage(1); }}
+              aria-label="From date"
+            />
+            <Input
+              type="date"
+              value={to}
+              onChange={(e) => { setTo(e.target.value); setPage(1); }}
+              aria-label="To date"
+            />
+          </form>
+
+          {loading && (
+            <div className="py-8 text-center">
+              <Loader2 className="h-10 w-10 text-blue-500 animate-spin mx-auto mb-2" />
+              <p className="text-gray-500">Loading jobs...</p>
+            </div>
+          )}
+
+          {error && !loading && (
+            <div className="py-4 text-center text-red-500">
+              {error}
+            </div>
+          )}
+
+          {!loading && !error && listing && listing.jobs.length === 0 && (
+            <div className="py-8 text-center">
+              <p className="text-gray-500">No jobs found.</p>
+            </div>
+          )}
+
+          {!loading && !error && listing && listing.jobs.length > 0 && (
+            <div className="border rounded-md overflow-hidden">
+              <div className="bg-gray-50 px-4 py-2 border-b grid grid-cols-12 gap-2">
+                <div className="col-span-6 font-medium text-sm">URLs</div>
+                <div className="col-span-2 font-medium text-sm">Status</div>
+                <div className="col-span-2 font-medium text-sm">Results</div>
+                <div className="col-span-2 font-medium text-sm">Created</div>
+              </div>
+
+              <div className="divide-y">
+                {listing.jobs.map((job) => (
+                  <Link
+                    key={job.jobId}
+                    href={`/history/${job.jobId}`}
+                    className="px-4 py-3 grid grid-cols-12 gap-2 items-center hover:bg-gray-50 transition-colors"
+                  >
+                    <div className="col-span-6 min-w-0">
+                      <p className="text-sm font-mono truncate">{job.urls[0]}</p>
+                      {job.urlCount > 1 && (
+                        <p className="text-xs text-gray-500">+{job.urlCount - 1} more</p>
+                      )}
+                    </div>
+                    <div className="col-span-2">
+                      <Badge variant="outline" className="capitalize">{job.status}</Badge>
+                    </div>
+                    <div className="col-span-2 text-sm text-gray-600">
+                      {job.successCount}/{job.urlCount}
+                      {job.failCount > 0 && <span className="text-red-600"> ({job.failCount} failed)</span>}
+                    </div>
+                    <div className="col-span-2 text-sm text-gray-500">
+                      {format(new Date(job.createdAt), "MM/dd/yyyy HH:mm")}
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Pagination */}
+          {listing && listing.total > PAGE_SIZE && (
+            <div className="flex items-center justify-between mt-4">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1 || loading}
+              >
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                Previous
+              </Button>
+              <span className="text-sm text-gray-600">
+                Page {page} of {pageCount}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pageCount || loading}
+              >
+                Next
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,17 +1,24 @@
 import { useState } from "react";
+import { Link } from "wouter";
+import { History } from "lucide-react";
 import UrlInputForm from "@/components/UrlInputForm";
 import ProcessingCard from "@/components/ProcessingCard";
 import CompletionCard from "@/components/CompletionCard";
 import ErrorCard from "@/components/ErrorCard";
 import HelpSection from "@/components/HelpSection";
+import QuotaReadout from "@/components/QuotaReadout";
+import type { JobOptions, UrlAttempt } from "@shared/schema";
 
 export type ProcessingStatus = "idle" | "processing" | "completed" | "error";
 
 export interface UrlStatus {
   url: string;
-  status: "pending" | "processing" | "complete" | "failed";
+  status: "pending" | "processing" | "retrying" | "complete" | "failed";
   filename?: string;
   error?: string;
+  attempt?: number;
+  maxAttempts?: number;
+  attempts?: UrlAttempt[];
 }
 
 export interface CompletionResults {
@@ -24,6 +31,7 @@ export default function Home() {
   const [processingStatus, setProcessingStatus] = useState<ProcessingStatus>("idle");
   const [urlStatuses, setUrlStatuses] = useState<UrlStatus[]>([]);
   const [outputPath, setOutputPath] = useState<string>("");
+  const [jobOptions, setJobOptions] = useState<JobOptions>({});
   const [errorMessage, setErrorMessage] = useState<string>("");
   const [jobId, setJobId] = useState<string>("");
   const [completionResults, setCompletionResults] = useState<CompletionResults>({
@@ -44,6 +52,17 @@ export default function Home() {
     });
   };
 
+  // Failed URLs were re-queued into the job, so follow it again
+  const handleRetry = (retryJobId: string) => {
+    setUrlStatuses(prev => prev.map(urlStatus =>
+      urlStatus.status === "failed"
+        ? { ...urlStatus, status: "pending", error: undefined, attempt: undefined }
+        : urlStatus
+    ));
+    setJobId(retryJobId);
+    setProcessingStatus("processing");
+  };
+
   const handleError = (message: string) => {
     setErrorMessage(message);
     setProcessingStatus("error");
@@ -54,12 +73,19 @@ export default function Home() {
       <header className="mb-8 text-center">
         <h1 className="text-2xl font-semibold text-gray-900 mb-2">URL to PDF Converter</h1>
         <p className="text-gray-600">Convert web pages to PDF with a few clicks</p>
+        <Link href="/history" className="inline-flex items-center mt-2 text-sm text-blue-600 hover:underline">
+          <History className="h-4 w-4 mr-1" />
+          Job history
+        </Link>
       </header>
 
+      <QuotaReadout processingStatus={processingStatus} />
+
       {processingStatus === "idle" && (
         <UrlInputForm 
-          onStartProcessing={(urls, outputDir) => {
+          onStartProcessing={(urls, outputDir, options) => {
             setOutputPath(outputDir);
+            setJobOptions(options);
             setUrlStatuses(urls.map(url => ({ url, status: "pending" })));
             setProcessingStatus("processing");
           }} 
@@ -72,6 +98,8 @@ export default function Home() {
           urlStatuses={urlStatuses}
           setUrlStatuses={setUrlStatuses}
           outputPath={outputPath}
+          jobOptions={jobOptions}
+          existingJobId={jobId || undefined}
           onComplete={(results: CompletionResults, id?: string) => {
             console.log("Setting completion results:", results, "jobId:", id);
             setCompletionResults(results);
@@ -86,7 +114,9 @@ export default function Home() {
       {processingStatus === "completed" && (
         <CompletionCard
           results={completionResults}
+          urlStatuses={urlStatuses}
           onStartNew={handleReset}
+          onRetry={handleRetry}
           jobId={jobId}
           key={`completion-${jobId}`} // Add key to force re-render on new job
         />
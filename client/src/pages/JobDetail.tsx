@@ -0,0 +1,136 @@
+import { useState, useEffect } from "react";
+import { Link, useParams } from "wouter";
+import { format } from "date-fns";
+import { ArrowLeft, Download, Loader2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import PdfFileList from "@/components/PdfFileList";
+import { getJob, getJobArchiveUrl } from "@/lib/api";
+import type { PdfJob, UrlStatus, WebhookDelivery } from "@shared/schema";
+
+export default function JobDetail() {
+  const { jobId } = useParams<{ jobId: string }>();
+  const [job, setJob] = useState<PdfJob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setJob(null);
+    setError(null);
+    getJob(jobId)
+      .then(setJob)
+      .catch((err) => setError((err as Error).message));
+  }, [jobId]);
+
+  const urlStatuses = (job?.urlStatuses ?? []) as UrlStatus[];
+  const failedUrls = urlStatuses.filter(u => u.status === "failed");
+  const webhookDeliveries = (job?.webhookDeliveries ?? []) as WebhookDelivery[];
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <div className="mb-4 flex justify-between">
+        <Link href="/history">
+          <Button variant="outline" className="flex items-center">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to History
+          </Button>
+        </Link>
+        {job && job.successCount > 0 && (
+          <Button variant="outline" asChild>
+            <a href={getJobArchiveUrl(job.jobId)} download>
+              <Download className="mr-2 h-4 w-4" />
+              Download all
+            </a>
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <Card className="mb-6 border-l-4 border-red-500">
+          <CardContent className="pt-6 text-red-700">{error}</CardContent>
+        </Card>
+      )}
+
+      {!job && !error && (
+        <div className="py-8 text-center">
+          <Loader2 className="h-10 w-10 text-blue-500 animate-spin mx-auto mb-2" />
+          <p className="text-gray-500">Loading job...</p>
+        </div>
+      )}
+
+      {job && (
+        <>
+          <Card className="mb-6">
+            <CardContent className="pt-6">
+              <div className="flex justify-between items-start mb-4">
+                <div>
+                  <h2 className="text-lg font-medium text-gray-900">Job {job.jobId}</h2>
+                  <p className="text-sm text-gray-500">
+                    Created {format(new Date(job.createdAt), "MM/dd/yyyy HH:mm")} · Saved to {job.outputPath}
+                  </p>
+                  {job.parentJobId && (
+                    <Link href={`/history/${job.parentJobId}`} className="text-sm text-blue-600 hover:underline">
+                      Retry of job {job.parentJobId}
+                    </Link>
+                  )}
+                </div>
+                <Badge variant="outline" className="capitalize">{job.status}</Badge>
+              </div>
+
+              <p className="text-gray-600">
+                {job.successCount} of {urlStatuses.length} URLs converted
+                {job.failCount > 0 ? `, ${job.failCount} failed` : ""}
+              </p>
+
+              {failedUrls.length > 0 && (
+                <div className="border border-red-200 rounded-md overflow-hidden mt-4">
+                  <div className="bg-red-50 px-4 py-2 border-b border-red-200">
+                    <span className="font-medium text-sm text-red-800">Failed URLs</span>
+                  </div>
+                  <div className="divide-y max-h-60 overflow-y-auto">
+                    {failedUrls.map((urlStatus, index) => (
+                      <div key={index} className="px-4 py-2">
+                        <p className="text-sm font-mono truncate">{urlStatus.url}</p>
+                        {urlStatus.error && (
+                          <p className="text-xs text-red-600 break-words">{urlStatus.error}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {webhookDeliveries.length > 0 && (
+                <div className="border rounded-md overflow-hidden mt-4">
+                  <div className="bg-gray-50 px-4 py-2 border-b">
+                    <span className="font-medium text-sm">Webhook deliveries</span>
+                  </div>
+                  <div className="divide-y max-h-60 overflow-y-auto">
+                    {webhookDeliveries.map((delivery, index) => (
+                      <div key={index} className="px-4 py-2 flex justify-between items-center gap-2">
+                        <div className="min-w-0">
+                          <p className="text-sm">
+                            {delivery.event} · attempt {delivery.attempt}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {format(new Date(delivery.attemptedAt), "MM/dd/yyyy HH:mm:ss")}
+                            {delivery.error && <span className="text-red-600"> · {delivery.error}</span>}
+                          </p>
+                        </div>
+                        <Badge variant="outline" className={delivery.delivered ? "text-emerald-700" : "text-red-700"}>
+                          {delivery.statusCode ?? "No response"}
+                        </Badge>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <PdfFileList jobId={job.jobId} />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+import { useState, useEffect } from "react";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { ArrowLeft, Copy, KeyRound, Loader2, Trash2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { listApiKeys, createApiKey, revokeApiKey, CreatedApiKey } from "@/lib/api";
+import { apiKeyScopes, type ApiKeyScope, type ApiKeySummary } from "@shared/schema";
+
+// Expiry choices for a new key, in days; "never" keeps the key until it is revoked
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "Never" },
+];
+
+const SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  generate: "Start, retry, merge and cancel jobs",
+  read: "Read jobs and download files",
+  delete: "Delete files",
+};
+
+function formatTimestamp(value: string | null): string {
+  return value ? format(new Date(value), "MM/dd/yyyy HH:mm") : "Never";
+}
+
+export default function Settings() {
+  const [keys, setKeys] = useState<ApiKeySummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>([...apiKeyScopes]);
+  const [expiry, setExpiry] = useState("90");
+  const [creating, setCreating] = useState(false);
+  const [createdKey, setCreatedKey] = useState<CreatedApiKey | null>(null);
+  const { toast } = useToast();
+
+  const loadKeys = async () => {
+    try {
+      setLoading(true);
+      setKeys(await listApiKeys());
+    } catch (err) {
+      toast({
+        title: "Error loading API keys",
+        description: (err as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadKeys();
+  }, []);
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes(prev => checked ? [...prev, scope] : prev.filter(s => s !== scope));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setCreating(true);
+      const expiresAt = expiry === "never"
+        ? undefined
+        : new Date(Date.now() + Number(expiry) * 24 * 60 * 60 * 1000).toISOString();
+      const key = await createApiKey({ name: name.trim(), scopes, expiresAt });
+      setCreatedKey(key);
+      setName("");
+      await loadKeys();
+    } catch (err) {
+      toast({
+        title: "Could not create API key",
+        description: (err as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (key: ApiKeySummary) => {
+    if (!window.confirm(`Revoke "${key.name}"? Scripts using it will stop working.`)) {
+      return;
+    }
+    try {
+      await revokeApiKey(key.id);
+      if (createdKey?.id === key.id) {
+        setCreatedKey(null);
+      }
+      await loadKeys();
+    } catch (err) {
+      toast({
+        title: "Could not revoke API key",
+        description: (err as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCopy = async (secret: string) => {
+    await navigator.clipboard.writeText(secret);
+    toast({ title: "API key copied" });
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <header className="mb-8 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900 mb-2">API Keys</h1>
+          <p className="text-gray-600">
+            Send a key as <code className="text-sm">Authorization: Bearer &lt;key&gt;</code> to call the API from scripts
+          </p>
+        </div>
+        <Link href="/">
+          <Button variant="outline">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            New Conversion
+          </Button>
+        </Link>
+      </header>
+
+      <Card className="mb-6">
+        <CardContent className="pt-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Create a key</h2>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="md:col-span-2 space-y-1">
+                <Label htmlFor="api-key-name">Name</Label>
+                <Input
+                  id="api-key-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. CI pipeline"
+                  maxLength={100}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Expires after</Label>
+                <Select value={expiry} onValueChange={setExpiry}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              {apiKeyScopes.map(scope => (
+                <div key={scope} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`scope-${scope}`}
+                    checked={scopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                  />
+                  <Label htmlFor={`scope-${scope}`} className="font-normal">
+                    <span className="font-mono">{scope}</span>
+                    <span className="text-gray-500"> · {SCOPE_DESCRIPTIONS[scope]}</span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+            <Button type="submit" disabled={creating || !name.trim() || scopes.length === 0}>
+              {creating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <KeyRound className="h-4 w-4 mr-2" />}
+              Create key
+            </Button>
+          </form>
+
+          {createdKey && (
+            <div className="mt-4 rounded-md border border-green-200 bg-green-50 p-4">
+              <p className="text-sm text-green-800 mb-2">
+                Copy the key for "{createdKey.name}" now. It won't be shown again.
+              </p>
+              <div className="flex gap-2">
+                <Input value={createdKey.secret} readOnly className="font-mono text-sm" />
+                <Button type="button" variant="outline" onClick={() => handleCopy(createdKey.secret)}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Your keys</h2>
+
+          {loading && (
+            <div className="py-8 text-center">
+              <Loader2 className="h-8 w-8 text-blue-500 animate-spin mx-auto" />
+            </div>
+          )}
+
+          {!loading && keys.length === 0 && (
+            <p className="py-4 text-center text-gray-500">No API keys yet.</p>
+          )}
+
+          {!loading && keys.length > 0 && (
+            <div className="divide-y">
+              {keys.map(key => {
+                const expired = key.expiresAt !== null && new Date(key.expiresAt).getTime() <= Date.now();
+                return (
+                  <div key={key.id} className="py-3 flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate">{key.name}</span>
+                        <span className="font-mono text-xs text-gray-500">{key.prefix}…</span>
+                        {expired && <Badge variant="destructive">Expired</Badge>}
+                      </div>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {key.scopes.map(scope => (
+                          <Badge key={scope} variant="secondary">{scope}</Badge>
+                        ))}
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Created {formatTimestamp(key.createdAt)}
+                        {" · "}Last used {formatTimestamp(key.lastUsedAt)}
+                        {" · "}{key.expiresAt ? `${expired ? "Expired" : "Expires"} ${formatTimestamp(key.expiresAt)}` : "Never expires"}
+                      </p>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => handleRevoke(key)}>
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Revoke
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+CREATE TABLE "pdf_jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"job_id" text NOT NULL,
+	"urls" jsonb NOT NULL,
+	"output_path" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"completed" boolean DEFAULT false NOT NULL,
+	"url_statuses" jsonb NOT NULL,
+	"success_count" integer DEFAULT 0 NOT NULL,
+	"fail_count" integer DEFAULT 0 NOT NULL,
+	"created_at" text NOT NULL,
+	CONSTRAINT "pdf_jobs_job_id_unique" UNIQUE("job_id")
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
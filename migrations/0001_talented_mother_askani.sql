@@ -0,0 +1 @@
+ALTER TABLE "pdf_jobs" ADD COLUMN "options" jsonb DEFAULT '{}'::jsonb NOT NULL;
\ No newline at end of file
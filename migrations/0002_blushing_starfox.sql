@@ -0,0 +1 @@
+ALTER TABLE "pdf_jobs" ADD COLUMN "parent_job_id" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "pdf_jobs" ADD COLUMN "merged_file" jsonb;
\ No newline at end of file
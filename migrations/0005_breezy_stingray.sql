@@ -0,0 +1,2 @@
+ALTER TABLE "pdf_jobs" ADD COLUMN "owner_id" integer;--> statement-breakpoint
+ALTER TABLE "pdf_jobs" ADD CONSTRAINT "pdf_jobs_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "pdf_jobs" ADD COLUMN "error" text;
\ No newline at end of file
@@ -0,0 +1,101 @@
+import type { Request, Response, NextFunction } from "express";
+import { createHash, randomBytes } from "crypto";
+import type { ApiKey, ApiKeyScope, ApiKeySummary } from "@shared/schema";
+import { storage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set when the request was authenticated with an API key rather than a session
+      apiKey?: ApiKey;
+    }
+  }
+}
+
+const KEY_PREFIX = "pdfsnap_";
+// Characters of the secret shown back to the user to tell keys apart
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 6;
+// lastUsedAt is only written when it is older than this, not on every request
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+// Keys are 256 random bits, so a plain SHA-256 is enough to keep them unrecoverable
+export function hashApiKey(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+// A new secret with the parts of it that are stored
+export function generateApiKey(): { secret: string; prefix: string; keyHash: string } {
+  const secret = `${KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return { secret, prefix: secret.slice(0, DISPLAY_PREFIX_LENGTH), keyHash: hashApiKey(secret) };
+}
+
+export function toApiKeySummary({ userId: _userId, keyHash: _keyHash, ...summary }: ApiKey): ApiKeySummary {
+  return summary;
+}
+
+// Log the request in as the key's owner when it carries "Authorization: Bearer <key>".
+// No session is created, and a bad key is refused even if a session cookie is present.
+export async function authenticateApiKey(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers.authorization;
+  if (!header?.toLowerCase().startsWith("bearer ")) {
+    return next();
+  }
+
+  try {
+    const key = await storage.getApiKeyByHash(hashApiKey(header.slice("bearer ".length).trim()));
+    if (!key) {
+      return res.status(401).json({ message: "Invalid API key" });
+    }
+    if (key.expiresAt && new Date(key.expiresAt).getTime() <= Date.now()) {
+      return res.status(401).json({ message: "API key has expired" });
+    }
+
+    const user = await storage.getUser(key.userId);
+    if (!user) {
+      return res.status(401).json({ message: "Invalid API key" });
+    }
+
+    const now = new Date();
+    if (!key.lastUsedAt || now.getTime() - new Date(key.lastUsedAt).getTime() >= TOUCH_INTERVAL_MS) {
+      storage.touchApiKey(key.id, now.toISOString()).catch((error) => {
+        console.error(`Failed to record use of API key ${key.id}:`, error);
+      });
+    }
+
+    req.user = { id: user.id, username: user.username };
+    req.apiKey = key;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// The scope an API key needs for a request, by its method
+function requiredScope(req: Request): ApiKeyScope {
+  switch (req.method) {
+    case "GET":
+    case "HEAD":
+      return "read";
+    case "DELETE":
+      return "delete";
+    default:
+      return "generate";
+  }
+}
+
+// Answer 403 when an API key lacks the scope the request needs; sessions may do anything
+export function requireApiKeyScope(req: Request, res: Response, next: NextFunction) {
+  const scope = requiredScope(req);
+  if (req.apiKey && !req.apiKey.scopes.includes(scope)) {
+    return res.status(403).json({ message: `API key lacks the "${scope}" scope` });
+  }
+  next();
+}
+
+// Answer 403 for API-key requests, so a key can't be used to create or revoke keys
+export function requireSession(req: Request, res: Response, next: NextFunction) {
+  if (req.apiKey) {
+    return res.status(403).json({ message: "API keys can only be managed from a logged-in session" });
+  }
+  next();
+}
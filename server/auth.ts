@@ -0,0 +1,167 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { registerUserSchema, type PublicUser, type User as StoredUser } from "@shared/schema";
+import { storage } from "./storage";
+import { config } from "./config";
+import { authenticateApiKey } from "./api-keys";
+
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+// Stored as "<hex hash>.<hex salt>"
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  if (!hash || !salt) {
+    return false;
+  }
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, salt, expected.length);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Compared against for unknown usernames, so a login takes as long whether or not the user exists
+const unknownUserHash = hashPassword(randomBytes(16).toString("hex"));
+
+function toPublicUser(user: StoredUser): PublicUser {
+  return { id: user.id, username: user.username };
+}
+
+function sessionSecret(): string {
+  if (config.session.secret) {
+    return config.session.secret;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("SESSION_SECRET is not set; sessions will not survive a restart");
+  return randomBytes(32).toString("hex");
+}
+
+// Install cookie sessions, API key authentication and the register, login, logout and current-user routes
+export function setupAuth(app: Express): void {
+  // Behind a TLS-terminating proxy the secure cookie needs the forwarded protocol
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret: sessionSecret(),
+    store: storage.sessionStore,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: config.session.maxAgeMs,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+  app.use("/api", authenticateApiKey);
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username.trim());
+      const valid = await verifyPassword(password, user?.password ?? await unknownUserHash);
+      return done(null, user && valid ? toPublicUser(user) : false);
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // A deleted user simply ends the session
+      done(null, user ? toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const { username, password } = registerUserSchema.parse(req.body);
+
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ message: "That username is already taken" });
+      }
+
+      const user = await storage.createUser({ username, password: await hashPassword(password) });
+      const publicUser = toPublicUser(user);
+
+      req.login(publicUser, (error) => {
+        if (error) {
+          return next(error);
+        }
+        res.status(201).json(publicUser);
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error registering user:", error);
+      res.status(500).json({ message: `Failed to register: ${(error as Error).message}` });
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (error: unknown, user: Express.User | false) => {
+      if (error) {
+        return next(error);
+      }
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      // Passport gives the session a fresh id, so a planted cookie is not carried into the account
+      req.login(user, (loginError) => {
+        if (loginError) {
+          return next(loginError);
+        }
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) {
+        return next(error);
+      }
+      res.sendStatus(204);
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not logged in" });
+    }
+    res.json(req.user);
+  });
+}
+
+// Answer 401 unless the request carries a logged-in session or an API key
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "You must be logged in" });
+  }
+  next();
+}
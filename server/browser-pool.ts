@@ -0,0 +1,260 @@
+import { chromium, type Browser, type BrowserContext, type BrowserContextOptions } from 'playwright-chromium';
+import { config } from "./config";
+
+interface PooledBrowser {
+  browser: Browser;
+  activeContexts: number;
+  pagesServed: number;
+  // Retiring browsers take no new contexts and close once their last context is released
+  retiring: boolean;
+}
+
+interface ContextOwner {
+  entry: PooledBrowser;
+  jobId: string;
+}
+
+export interface BrowserPoolOptions {
+  minBrowsers: number;
+  maxBrowsers: number;
+  maxContexts: number;
+  recycleAfterPages: number;
+  healthCheckIntervalMs: number;
+  launch: () => Promise<Browser>;
+}
+
+// Long-lived Chromium instances shared by all jobs; jobs borrow one context per page
+export class BrowserPool {
+  private browsers: PooledBrowser[] = [];
+  private launching = 0;
+  private openContexts = 0;
+  private waiters: Array<() => void> = [];
+  // Callers waiting for a browser slot while every browser is retiring, gone or launching
+  private browserWaiters: Array<() => void> = [];
+  private contextOwners = new Map<BrowserContext, ContextOwner>();
+  private jobContexts = new Map<string, Set<BrowserContext>>();
+  private healthTimer: NodeJS.Timeout | null = null;
+
+  constructor(private options: BrowserPoolOptions) {}
+
+  // Launch the minimum number of browsers and start periodic health checks
+  async warmUp(): Promise<void> {
+    if (!this.healthTimer) {
+      this.healthTimer = setInterval(() => {
+        this.healthCheck().catch(error => console.error("Browser pool health check failed:", error));
+      }, this.options.healthCheckIntervalMs);
+      this.healthTimer.unref();
+    }
+
+    while (this.browsers.length + this.launching < this.options.minBrowsers) {
+      await this.launchBrowser();
+    }
+  }
+
+  // Borrow a fresh context, waiting while the pool is at its context limit
+  async acquireContext(jobId: string, contextOptions?: BrowserContextOptions): Promise<BrowserContext> {
+    while (this.openContexts >= this.options.maxContexts) {
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+    this.openContexts++;
+
+    let entry: PooledBrowser | null = null;
+    try {
+      entry = await this.pickBrowser();
+      entry.activeContexts++;
+      entry.pagesServed++;
+
+      if (entry.pagesServed >= this.options.recycleAfterPages) {
+        console.log(`Recycling browser after ${entry.pagesServed} pages`);
+        entry.retiring = true;
+      }
+
+      const context = await entry.browser.newContext(contextOptions);
+      this.contextOwners.set(context, { entry, jobId });
+
+      const contexts = this.jobContexts.get(jobId) ?? new Set<BrowserContext>();
+      contexts.add(context);
+      this.jobContexts.set(jobId, contexts);
+
+      return context;
+    } catch (error) {
+      if (entry) {
+        entry.activeContexts--;
+        await this.closeIfDrained(entry);
+      }
+      this.openContexts--;
+      this.wakeNextWaiter();
+      throw error;
+    }
+  }
+
+  // Close a borrowed context and return its slot to the pool
+  async releaseContext(context: BrowserContext): Promise<void> {
+    const owner = this.contextOwners.get(context);
+    if (!owner) {
+      return;
+    }
+
+    this.contextOwners.delete(context);
+    const contexts = this.jobContexts.get(owner.jobId);
+    contexts?.delete(context);
+    if (contexts && contexts.size === 0) {
+      this.jobContexts.delete(owner.jobId);
+    }
+
+    await context.close().catch(() => undefined);
+
+    owner.entry.activeContexts--;
+    this.openContexts--;
+    await this.closeIfDrained(owner.entry);
+    this.wakeNextWaiter();
+  }
+
+  // Close every context borrowed by a job, leaving the browsers running for other jobs
+  async closeJobContexts(jobId: string): Promise<void> {
+    const contexts = Array.from(this.jobContexts.get(jobId) ?? []);
+    await Promise.all(contexts.map(context => this.releaseContext(context)));
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+
+    const entries = this.browsers;
+    this.browsers = [];
+    this.wakeBrowserWaiters();
+    await Promise.all(entries.map(entry => entry.browser.close().catch(() => undefined)));
+  }
+
+  private async pickBrowser(): Promise<PooledBrowser> {
+    for (;;) {
+      const leastBusy = this.browsers
+        .filter(entry => !entry.retiring && entry.browser.isConnected())
+        .sort((a, b) => a.activeContexts - b.activeContexts)[0];
+
+      // Spread contexts over more browsers while we are allowed to launch them
+      const canLaunch = this.browsers.length + this.launching < this.options.maxBrowsers;
+      if (leastBusy && (leastBusy.activeContexts === 0 || !canLaunch)) {
+        return leastBusy;
+      }
+      if (canLaunch) {
+        return this.launchBrowser();
+      }
+
+      // Every browser is retiring, gone or still launching; wait until one leaves the pool or is ready
+      await new Promise<void>(resolve => this.browserWaiters.push(resolve));
+    }
+  }
+
+  private async launchBrowser(): Promise<PooledBrowser> {
+    this.launching++;
+    try {
+      const browser = await this.options.launch();
+      const entry: PooledBrowser = { browser, activeContexts: 0, pagesServed: 0, retiring: false };
+
+      browser.on('disconnected', () => {
+        if (this.browsers.includes(entry)) {
+          console.error("Pooled browser disconnected unexpectedly, removing it from the pool");
+          this.removeBrowser(entry);
+        }
+      });
+
+      this.browsers.push(entry);
+      return entry;
+    } finally {
+      this.launching--;
+      this.wakeBrowserWaiters();
+    }
+  }
+
+  private removeBrowser(entry: PooledBrowser) {
+    this.browsers = this.browsers.filter(other => other !== entry);
+    this.wakeBrowserWaiters();
+  }
+
+  private async closeIfDrained(entry: PooledBrowser): Promise<void> {
+    if (entry.retiring && entry.activeContexts === 0) {
+      this.removeBrowser(entry);
+      await entry.browser.close().catch(() => undefined);
+    }
+  }
+
+  // Each woken caller checks the pool again, and waits again if there is still no slot
+  private wakeBrowserWaiters() {
+    const waiters = this.browserWaiters;
+    this.browserWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+
+  private wakeNextWaiter() {
+    const next = this.waiters.shift();
+    if (next) {
+      next();
+    }
+  }
+
+  // Drop browsers that crashed or stopped responding, then top the pool back up
+  private async healthCheck(): Promise<void> {
+    for (const entry of [...this.browsers]) {
+      if (!entry.browser.isConnected()) {
+        this.removeBrowser(entry);
+        continue;
+      }
+
+      if (entry.activeContexts > 0) {
+        continue;
+      }
+
+      try {
+        const probe = await withTimeout(entry.browser.newContext(), 5000);
+        await probe.close();
+      } catch (error) {
+        console.error("Browser failed health check, replacing it:", error);
+        this.removeBrowser(entry);
+        await entry.browser.close().catch(() => undefined);
+      }
+    }
+
+    await this.warmUp();
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+}
+
+// Launch Chromium as configured, turning launch failures into an actionable message
+export async function launchBrowser(): Promise<Browser> {
+  const { executablePath, args, headless } = config.browser;
+
+  try {
+    return await chromium.launch({ executablePath, args, headless });
+  } catch (error) {
+    const source = executablePath ? `from ${executablePath}` : "from Playwright's bundled browser";
+    throw new Error(
+      `Could not launch Chromium ${source}: ${(error as Error).message.split("\n")[0]}. ` +
+      `Set CHROMIUM_EXECUTABLE_PATH to a working Chromium or run "npx playwright install chromium".`
+    );
+  }
+}
+
+// Launch and close a browser once so a broken setup is reported at startup rather than on the first job
+export async function checkBrowser(): Promise<void> {
+  const browser = await launchBrowser();
+  const version = browser.version();
+  await browser.close();
+  console.log(`Browser self-check passed (Chromium ${version})`);
+}
+
+export const browserPool = new BrowserPool({
+  ...config.pool,
+  launch: launchBrowser,
+});
@@ -0,0 +1,241 @@
+import fs from "fs";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+
+// Server settings, read from an optional JSON config file and overridden by environment variables
+const configSchema = z.object({
+  browser: z.object({
+    // Unset uses the Chromium bundled with Playwright
+    executablePath: z.string().optional(),
+    args: z.array(z.string()).default(["--no-sandbox", "--disable-setuid-sandbox"]),
+    headless: z.boolean().default(true),
+  }).default({}),
+  timeouts: z.object({
+    navigationMs: z.number().int().positive().default(60000),
+    // Pause after load and after scrolling to let late content render
+    renderDelayMs: z.number().int().min(0).default(2000),
+    scrollSettleMs: z.number().int().min(0).default(1000),
+  }).default({}),
+  pool: z.object({
+    minBrowsers: z.number().int().min(0).default(1),
+    maxBrowsers: z.number().int().min(1).default(2),
+    maxContexts: z.number().int().min(1).default(8),
+    recycleAfterPages: z.number().int().min(1).default(100),
+    healthCheckIntervalMs: z.number().int().positive().default(30000),
+  }).default({}),
+  // Server-wide ceiling on how many URLs a single job may render at once
+  maxConcurrency: z.number().int().min(1).default(4),
+  // Synchronous single-URL renders from POST /api/pdf/render
+  render: z.object({
+    maxConcurrent: z.number().int().min(1).default(2),
+    // Upper bound for a render; requests may ask for less
+    timeoutMs: z.number().int().positive().default(120000),
+  }).default({}),
+  // Named directories the file endpoints and job output paths are confined to
+  files: z.object({
+    roots: z
+      .record(z.string().min(1))
+      .refine((roots) => Object.keys(roots).length > 0, "At least one file root is required")
+      .default({
+        "generated-pdfs": "./generated-pdfs",
+        downloads: "./downloads",
+        documents: "./documents",
+        desktop: "./desktop",
+      }),
+  }).default({}),
+  // Which URLs pages may be rendered from, and which resources they may load
+  urlPolicy: z.object({
+    allowedSchemes: z.array(z.string()).default(["http", "https"]),
+    // Loopback, private and link-local addresses are refused unless this is set
+    allowPrivateNetworks: z.boolean().default(false),
+    // Empty allows every domain not denied; entries also match their subdomains
+    allowedDomains: z.array(z.string()).default([]),
+    deniedDomains: z.array(z.string()).default([]),
+  }).default({}),
+  // Per-user limits on job submission and storage
+  quotas: z.object({
+    maxUrlsPerJob: z.number().int().min(1).default(500),
+    maxConcurrentJobs: z.number().int().min(1).default(3),
+    maxJobsPerHour: z.number().int().min(1).default(60),
+    // Total size of the files a user's jobs have produced and still exist
+    maxStoredBytes: z.number().int().min(1).default(5 * 1024 * 1024 * 1024),
+  }).default({}),
+  session: z.object({
+    // Signs the session cookie; required in production, random per process otherwise
+    secret: z.string().min(1).optional(),
+    maxAgeMs: z.number().int().positive().default(7 * 24 * 60 * 60 * 1000),
+  }).default({}),
+  webhooks: z.object({
+    maxAttempts: z.number().int().min(1).default(5),
+    // Delay before the first redelivery, doubled for each further one
+    backoffMs: z.number().int().min(0).default(2000),
+    timeoutMs: z.number().int().positive().default(10000),
+  }).default({}),
+});
+
+export type ServerConfig = z.infer<typeof configSchema>;
+
+const DEFAULT_CONFIG_FILE = "./pdfsnap.config.json";
+
+function readConfigFile(): Record<string, any> {
+  const file = process.env.CONFIG_FILE || DEFAULT_CONFIG_FILE;
+
+  if (!fs.existsSync(file)) {
+    if (process.env.CONFIG_FILE) {
+      throw new Error(`Config file ${file} does not exist`);
+    }
+    return {};
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new Error(`Could not parse config file ${file}: ${(error as Error).message}`);
+  }
+}
+
+function envNumber(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`${name} must be a number, got "${value}"`);
+  }
+  return parsed;
+}
+
+function envBoolean(name: string): boolean | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  return !["false", "0", "no"].includes(value.toLowerCase());
+}
+
+function envList(name: string): string[] | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  return value.split(",").map(entry => entry.trim()).filter(Boolean);
+}
+
+// "name=path" pairs separated by commas
+function envRoots(name: string): Record<string, string> | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+
+  return Object.fromEntries(value.split(",").map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const separator = entry.indexOf("=");
+    if (separator <= 0) {
+      throw new Error(`${name} entries must look like name=path, got "${entry}"`);
+    }
+    return [entry.slice(0, separator).trim(), entry.slice(separator + 1).trim()];
+  }));
+}
+
+// Drop unset values so they don't mask the config file or the defaults
+function defined<T extends Record<string, unknown>>(values: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
+
+function loadConfig(): ServerConfig {
+  const file = readConfigFile();
+  const defaultArgs = configSchema.shape.browser.parse({}).args;
+  const baseArgs: string[] = file.browser?.args ?? defaultArgs;
+  // CHROMIUM_ARGS adds to the configured arguments rather than replacing them
+  const extraArgs = (process.env.CHROMIUM_ARGS ?? "").split(/\s+/).filter(Boolean);
+
+  const merged = {
+    ...file,
+    browser: {
+      ...file.browser,
+      ...defined({
+        executablePath: process.env.CHROMIUM_EXECUTABLE_PATH || undefined,
+        headless: envBoolean("CHROMIUM_HEADLESS"),
+      }),
+      args: [...baseArgs, ...extraArgs],
+    },
+    timeouts: {
+      ...file.timeouts,
+      ...defined({
+        navigationMs: envNumber("NAVIGATION_TIMEOUT_MS"),
+        renderDelayMs: envNumber("RENDER_DELAY_MS"),
+        scrollSettleMs: envNumber("SCROLL_SETTLE_MS"),
+      }),
+    },
+    pool: {
+      ...file.pool,
+      ...defined({
+        minBrowsers: envNumber("BROWSER_POOL_MIN"),
+        maxBrowsers: envNumber("BROWSER_POOL_MAX"),
+        maxContexts: envNumber("BROWSER_MAX_CONTEXTS"),
+        recycleAfterPages: envNumber("BROWSER_RECYCLE_AFTER_PAGES"),
+      }),
+    },
+    render: {
+      ...file.render,
+      ...defined({
+        maxConcurrent: envNumber("RENDER_MAX_CONCURRENT"),
+        timeoutMs: envNumber("RENDER_TIMEOUT_MS"),
+      }),
+    },
+    files: {
+      ...file.files,
+      ...defined({
+        roots: envRoots("FILE_ROOTS"),
+      }),
+    },
+    urlPolicy: {
+      ...file.urlPolicy,
+      ...defined({
+        allowedSchemes: envList("URL_ALLOWED_SCHEMES"),
+        allowPrivateNetworks: envBoolean("URL_ALLOW_PRIVATE_NETWORKS"),
+        allowedDomains: envList("URL_ALLOWED_DOMAINS"),
+        deniedDomains: envList("URL_DENIED_DOMAINS"),
+      }),
+    },
+    quotas: {
+      ...file.quotas,
+      ...defined({
+        maxUrlsPerJob: envNumber("QUOTA_MAX_URLS_PER_JOB"),
+        maxConcurrentJobs: envNumber("QUOTA_MAX_CONCURRENT_JOBS"),
+        maxJobsPerHour: envNumber("QUOTA_MAX_JOBS_PER_HOUR"),
+        maxStoredBytes: envNumber("QUOTA_MAX_STORED_BYTES"),
+      }),
+    },
+    session: {
+      ...file.session,
+      ...defined({
+        secret: process.env.SESSION_SECRET || undefined,
+        maxAgeMs: envNumber("SESSION_MAX_AGE_MS"),
+      }),
+    },
+    webhooks: {
+      ...file.webhooks,
+      ...defined({
+        maxAttempts: envNumber("WEBHOOK_MAX_ATTEMPTS"),
+        backoffMs: envNumber("WEBHOOK_BACKOFF_MS"),
+        timeoutMs: envNumber("WEBHOOK_TIMEOUT_MS"),
+      }),
+    },
+    ...defined({
+      maxConcurrency: envNumber("PDF_MAX_CONCURRENCY"),
+    }),
+  };
+
+  const result = configSchema.safeParse(merged);
+  if (!result.success) {
+    throw new Error(`Invalid server configuration: ${fromZodError(result.error).message}`);
+  }
+  return result.data;
+}
+
+export const config = loadConfig();
@@ -0,0 +1,42 @@
+import pg from "pg";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import * as schema from "@shared/schema";
+
+export type Database = NodePgDatabase<typeof schema>;
+
+let pool: pg.Pool | null = null;
+let db: Database | null = null;
+
+// Lazily connect so the in-memory storage works without a database
+export function getDb(): Database {
+  if (!db) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error("DATABASE_URL must be set to use the Postgres storage");
+    }
+
+    pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+    db = drizzle(pool, { schema });
+  }
+
+  return db;
+}
+
+// The connection pool behind getDb, for libraries that query Postgres directly
+export function getPool(): pg.Pool {
+  getDb();
+  return pool!;
+}
+
+// Apply any pending migrations from ./migrations
+export async function runMigrations(database: Database = getDb()): Promise<void> {
+  await migrate(database, { migrationsFolder: "./migrations" });
+}
+
+export async function closeDb(): Promise<void> {
+  if (pool) {
+    await pool.end();
+    pool = null;
+    db = null;
+  }
+}
@@ -0,0 +1,75 @@
+import fs from "fs";
+import path from "path";
+import { config } from "./config";
+
+export class PathOutsideRootError extends Error {}
+
+export interface FileRoot {
+  name: string;
+  // Real location, with symlinks resolved
+  path: string;
+}
+
+let fileRoots: Promise<FileRoot[]> | undefined;
+
+// The configured roots, created when missing
+export function getFileRoots(): Promise<FileRoot[]> {
+  if (!fileRoots) {
+    fileRoots = Promise.all(Object.entries(config.files.roots).map(async ([name, directory]) => {
+      await fs.promises.mkdir(directory, { recursive: true });
+      return { name, path: await fs.promises.realpath(directory) };
+    }));
+    // Try again on the next request rather than failing forever
+    fileRoots.catch(() => {
+      fileRoots = undefined;
+    });
+  }
+  return fileRoots;
+}
+
+// Resolve a path from a request to its real location and make sure it lies inside one
+// of the file roots; rejects with PathOutsideRootError otherwise. Symlinks are followed
+// before the check, and paths that don't exist yet are resolved through their nearest
+// existing parent.
+export async function resolveRootedPath(requested: string): Promise<{ root: FileRoot; path: string }> {
+  const canonical = await canonicalize(path.resolve(requested));
+  const root = (await getFileRoots()).find(root => isWithin(canonical, root.path));
+
+  if (!root) {
+    throw new PathOutsideRootError(`${requested} is outside the allowed file locations`);
+  }
+  return { root, path: canonical };
+}
+
+async function canonicalize(absolute: string): Promise<string> {
+  const missing: string[] = [];
+  let current = absolute;
+
+  for (;;) {
+    try {
+      return path.join(await fs.promises.realpath(current), ...missing);
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code !== "ENOENT" && code !== "ENOTDIR") {
+        throw error;
+      }
+
+      // A dangling symlink would be followed by whatever later creates the path
+      const stats = await fs.promises.lstat(current).catch(() => null);
+      if (stats?.isSymbolicLink()) {
+        throw new PathOutsideRootError(`${absolute} goes through a broken symbolic link`);
+      }
+
+      const parent = path.dirname(current);
+      if (parent === current) {
+        throw error;
+      }
+      missing.unshift(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+function isWithin(candidate: string, root: string): boolean {
+  return candidate === root || candidate.startsWith(root.endsWith(path.sep) ? root : root + path.sep);
+}
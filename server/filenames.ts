@@ -0,0 +1,149 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import type { FilenameCollisionStrategy } from "@shared/schema";
+
+// The naming used before jobs could choose a template
+export const DEFAULT_FILENAME_TEMPLATE = "{domain}_{timestamp}";
+
+// Names are cut well below the common 255-byte limit, leaving room for a suffix and extension
+const MAX_SEGMENT_BYTES = 200;
+
+// Device names Windows refuses as file names, with or without an extension
+const WINDOWS_RESERVED_NAME = /^(con|prn|aux|nul|com[0-9]|lpt[0-9])(\..*)?$/i;
+
+export interface FilenameContext {
+  url: string;
+  title?: string;
+  // Zero-based position of the URL in its job
+  index: number;
+  total: number;
+  jobId: string;
+  date: Date;
+}
+
+export interface WrittenFile {
+  filename: string;
+  filePath: string;
+  skipped: boolean;
+}
+
+// Fill in a filename template, giving a relative path without extension such as
+// "example.com/2024-05-01/blog-post". Every folder and file name is made safe on
+// Windows, macOS and Linux, so tokens can never point outside the output directory.
+export function resolveFilename(template: string, context: FilenameContext): string {
+  const values = tokenValues(context);
+  return template
+    .split("/")
+    .map(segment => sanitizeSegment(segment.replace(/\{(\w+)\}/g, (match, token) => values[token] ?? match)))
+    .join("/");
+}
+
+// Write one render's files under a shared name, one extension per file. Files are
+// created exclusively, so parallel renders that arrive at the same name cannot
+// overwrite each other unless the strategy asks for it. With "suffix", all of the
+// files get the same suffix so that a URL's files keep matching names.
+export async function writeOutputFiles(
+  outputPath: string,
+  basename: string,
+  files: Array<{ extension: string; data: Buffer }>,
+  strategy: FilenameCollisionStrategy
+): Promise<WrittenFile[]> {
+  await fs.promises.mkdir(path.dirname(path.join(outputPath, basename)), { recursive: true });
+
+  if (strategy !== "suffix") {
+    return Promise.all(files.map(async ({ extension, data }) => {
+      const filename = `${basename}.${extension}`;
+      const filePath = path.join(outputPath, filename);
+      try {
+        await fs.promises.writeFile(filePath, data, { flag: strategy === "skip" ? "wx" : "w" });
+        return { filename, filePath, skipped: false };
+      } catch (error) {
+        if (strategy === "skip" && (error as NodeJS.ErrnoException).code === "EEXIST") {
+          return { filename, filePath, skipped: true };
+        }
+        throw error;
+      }
+    }));
+  }
+
+  for (let suffix = 0; ; suffix++) {
+    const name = suffix === 0 ? basename : `${basename}-${suffix}`;
+    const written: WrittenFile[] = [];
+    try {
+      for (const { extension, data } of files) {
+        const filename = `${name}.${extension}`;
+        const filePath = path.join(outputPath, filename);
+        await fs.promises.writeFile(filePath, data, { flag: "wx" });
+        written.push({ filename, filePath, skipped: false });
+      }
+      return written;
+    } catch (error) {
+      // Take back this round's files before trying the next suffix
+      await Promise.all(written.map(file => fs.promises.rm(file.filePath, { force: true })));
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+  }
+}
+
+function tokenValues({ url, title, index, total, jobId, date }: FilenameContext): Record<string, string> {
+  const parsed = new URL(url);
+  const timestamp = date.toISOString();
+  const pathSegments = parsed.pathname.split("/").filter(Boolean).map(decodeSegment);
+
+  return {
+    domain: parsed.host.replace(/^www\./, ""),
+    path: pathSegments.join("-") || "index",
+    query: decodeSegment(parsed.search.slice(1)),
+    title: title ?? "",
+    // Zero-padded so that names sort in submission order
+    index: String(index + 1).padStart(String(total).length, "0"),
+    date: timestamp.slice(0, 10),
+    time: timestamp.slice(11, 19).replace(/:/g, "-"),
+    timestamp: timestamp.replace(/[:.]/g, "-"),
+    jobId,
+    hash: createHash("sha256").update(url).digest("hex").slice(0, 8),
+  };
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+function sanitizeSegment(segment: string): string {
+  let safe = segment
+    .normalize("NFC")
+    .replace(/[<>:"/\\|?*\u0000-\u001F\u007F]/g, "_")
+    .replace(/\s+/g, "_")
+    // Leading dots hide files, trailing dots are dropped by Windows
+    .replace(/^\.+|\.+$/g, "");
+
+  safe = truncateBytes(safe, MAX_SEGMENT_BYTES).replace(/\.+$/, "");
+
+  if (!safe) {
+    return "untitled";
+  }
+  return WINDOWS_RESERVED_NAME.test(safe) ? `_${safe}` : safe;
+}
+
+// Cut to a UTF-8 byte length without splitting a character
+function truncateBytes(text: string, maxBytes: number): string {
+  if (Buffer.byteLength(text) <= maxBytes) {
+    return text;
+  }
+
+  let result = "";
+  for (const char of text) {
+    if (Buffer.byteLength(result + char) > maxBytes) {
+      break;
+    }
+    result += char;
+  }
+  return result;
+}
@@ -0,0 +1,90 @@
+import type { PdfOptions } from "@shared/schema";
+
+// Values stamped into header and footer templates for a single page render
+export interface HeaderFooterContext {
+  sourceUrl: string;
+  capturedAt: string;
+}
+
+export interface HeaderFooterOptions {
+  displayHeaderFooter: boolean;
+  headerTemplate?: string;
+  footerTemplate?: string;
+}
+
+// Chromium renders templates with a tiny default font, so every template sets its own style
+const TEMPLATE_STYLE = "font-size: 8px; color: #555; width: 100%; padding: 0 0.4in; display: flex; justify-content: space-between; font-family: sans-serif;";
+
+// An empty element suppresses Chromium's default date/title template
+const EMPTY_TEMPLATE = "<span></span>";
+
+const PAGE_NUMBERS = 'Page <span class="pageNumber"></span> of <span class="totalPages"></span>';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function wrap(content: string): string {
+  return `<div style="${TEMPLATE_STYLE}">${content}</div>`;
+}
+
+// Substitute our placeholders in a user-supplied template
+function fillTemplate(template: string, context: HeaderFooterContext): string {
+  return template
+    .replace(/\{\{\s*sourceUrl\s*\}\}/g, escapeHtml(context.sourceUrl))
+    .replace(/\{\{\s*capturedAt\s*\}\}/g, escapeHtml(context.capturedAt));
+}
+
+function presetTemplates(
+  preset: NonNullable<PdfOptions["headerFooterPreset"]>,
+  context: HeaderFooterContext
+): { headerTemplate: string; footerTemplate: string } {
+  const source = `<span>${escapeHtml(context.sourceUrl)}</span>`;
+  const capturedAt = `<span>Captured ${escapeHtml(context.capturedAt)}</span>`;
+
+  switch (preset) {
+    case "provenance":
+      return {
+        headerTemplate: wrap(source + capturedAt),
+        footerTemplate: wrap(`<span></span><span>${PAGE_NUMBERS}</span><span></span>`),
+      };
+    case "source":
+      return {
+        headerTemplate: wrap(source + capturedAt),
+        footerTemplate: EMPTY_TEMPLATE,
+      };
+    case "page-numbers":
+      return {
+        headerTemplate: EMPTY_TEMPLATE,
+        footerTemplate: wrap(`<span></span><span>${PAGE_NUMBERS}</span><span></span>`),
+      };
+  }
+}
+
+// Resolve the header/footer settings for page.pdf() from the job's options
+export function resolveHeaderFooter(
+  pdfOptions: PdfOptions,
+  context: HeaderFooterContext
+): HeaderFooterOptions {
+  const { headerFooterPreset, headerTemplate, footerTemplate } = pdfOptions;
+
+  if (headerFooterPreset) {
+    return { displayHeaderFooter: true, ...presetTemplates(headerFooterPreset, context) };
+  }
+
+  if (!headerTemplate && !footerTemplate) {
+    // Without templates Chromium falls back to its own date/title/URL layout
+    return { displayHeaderFooter: pdfOptions.displayHeaderFooter ?? false };
+  }
+
+  return {
+    displayHeaderFooter: true,
+    headerTemplate: headerTemplate ? fillTemplate(headerTemplate, context) : EMPTY_TEMPLATE,
+    footerTemplate: footerTemplate ? fillTemplate(footerTemplate, context) : EMPTY_TEMPLATE,
+  };
+}
@@ -1,6 +1,9 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { initStorage } from "./storage";
+import { resumeInterruptedJobs } from "./pdf-generator";
+import { browserPool, checkBrowser } from "./browser-pool";
 
 const app = express();
 app.use(express.json());
@@ -37,6 +40,7 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await initStorage();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -66,5 +70,15 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    
+    checkBrowser()
+      .then(() => browserPool.warmUp())
+      .catch((error) => {
+        console.error(`Browser self-check failed: ${error.message}`);
+      });
+    
+    resumeInterruptedJobs().catch((error) => {
+      console.error("Failed to resume interrupted jobs:", error);
+    });
   });
 })();
@@ -0,0 +1,99 @@
+import fs from "fs";
+import path from "path";
+import archiver from "archiver";
+import type { Response } from "express";
+import type { OutputFormat, PdfJob, UrlStatus } from "@shared/schema";
+import { urlStatusFiles } from "./job-files";
+
+export interface JobManifestEntry {
+  url: string;
+  status: UrlStatus["status"];
+  // Name of the URL's first file inside the archive, or null when the URL produced none
+  filename: string | null;
+  files: Array<{
+    format: OutputFormat;
+    filename: string;
+    fileSize: number;
+    pageCount: number | null;
+  }>;
+  error: string | null;
+  capturedAt: string | null;
+}
+
+// Stream a ZIP of the files a job produced, with a manifest.json describing every URL
+export async function streamJobArchive(job: PdfJob, res: Response): Promise<void> {
+  const urlStatuses = job.urlStatuses as UrlStatus[];
+  const files: Array<{ filePath: string; name: string }> = [];
+  const usedNames = new Set<string>(["manifest.json"]);
+  const manifest: JobManifestEntry[] = [];
+
+  for (const urlStatus of urlStatuses) {
+    const produced = urlStatus.status === "complete" ? urlStatusFiles(urlStatus) : [];
+    const entryFiles: JobManifestEntry["files"] = [];
+    let missing = false;
+
+    for (const file of produced) {
+      if (!await fs.promises.access(file.filePath).then(() => true, () => false)) {
+        missing = true;
+        continue;
+      }
+
+      // Two URLs can produce the same basename in different directories, so keep names unique
+      const name = uniqueName(file.filename, usedNames);
+      files.push({ filePath: file.filePath, name });
+      entryFiles.push({
+        format: file.format,
+        filename: name,
+        fileSize: file.fileSize,
+        pageCount: file.pageCount ?? null,
+      });
+    }
+
+    manifest.push({
+      url: urlStatus.url,
+      status: urlStatus.status,
+      filename: entryFiles[0]?.filename ?? null,
+      files: entryFiles,
+      error: urlStatus.error ?? (missing ? "File no longer exists" : null),
+      capturedAt: urlStatus.capturedAt ?? null,
+    });
+  }
+
+  const archive = archiver("zip", { zlib: { level: 6 } });
+
+  archive.on("warning", error => console.error(`Warning while archiving job ${job.jobId}:`, error));
+  archive.on("error", error => {
+    console.error(`Error archiving job ${job.jobId}:`, error);
+    res.destroy(error);
+  });
+
+  res.setHeader("Content-Type", "application/zip");
+  res.setHeader("Content-Disposition", `attachment; filename="job-${job.jobId}.zip"`);
+  archive.pipe(res);
+
+  archive.append(JSON.stringify({
+    jobId: job.jobId,
+    status: job.status,
+    createdAt: job.createdAt,
+    files: manifest,
+  }, null, 2), { name: "manifest.json" });
+
+  for (const file of files) {
+    archive.file(file.filePath, { name: file.name });
+  }
+
+  await archive.finalize();
+}
+
+function uniqueName(name: string, usedNames: Set<string>): string {
+  const ext = path.extname(name);
+  const base = name.slice(0, name.length - ext.length);
+  let candidate = name;
+
+  for (let counter = 2; usedNames.has(candidate); counter++) {
+    candidate = `${base}-${counter}${ext}`;
+  }
+
+  usedNames.add(candidate);
+  return candidate;
+}
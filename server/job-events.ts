@@ -0,0 +1,44 @@
+import { EventEmitter } from "events";
+import type { PdfJob, JobStatusEvent, UrlStatus, UrlStatusEvent } from "@shared/schema";
+
+export type JobEvent =
+  | { type: "url"; data: UrlStatusEvent }
+  | { type: "status"; data: JobStatusEvent }
+  // Sent once when the job completes, fails or is cancelled
+  | { type: "done"; data: JobStatusEvent };
+
+// In-process fan-out of job changes to live event streams
+const emitter = new EventEmitter();
+// Every open event stream adds a listener
+emitter.setMaxListeners(0);
+
+export function subscribeToJob(jobId: string, listener: (event: JobEvent) => void): () => void {
+  emitter.on(jobId, listener);
+  return () => {
+    emitter.off(jobId, listener);
+  };
+}
+
+function publish(jobId: string, event: JobEvent) {
+  emitter.emit(jobId, event);
+}
+
+export function publishUrlStatus(jobId: string, index: number, urlStatus: UrlStatus) {
+  publish(jobId, { type: "url", data: { index, urlStatus } });
+}
+
+// Publish a job's state after an update, as "done" once the job has finished
+export function publishJobStatus(job: PdfJob) {
+  const data = summarizeJob(job);
+  publish(job.jobId, { type: job.completed ? "done" : "status", data });
+}
+
+export function summarizeJob(job: PdfJob): JobStatusEvent {
+  return {
+    status: job.status,
+    error: job.error,
+    completed: job.completed,
+    successCount: job.successCount,
+    failCount: job.failCount,
+  };
+}
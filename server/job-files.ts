@@ -0,0 +1,85 @@
+import fs from "fs";
+import path from "path";
+import type { MergedFile, OutputFile, PdfJob, UrlStatus } from "@shared/schema";
+import { storage } from "./storage";
+
+const JOB_PAGE_SIZE = 200;
+
+export interface JobFile extends OutputFile {
+  url: string;
+  title?: string;
+  capturedAt?: string;
+}
+
+// Files produced for a URL; entries recorded before jobs had output formats describe a single PDF
+export function urlStatusFiles(urlStatus: UrlStatus): OutputFile[] {
+  if (urlStatus.files) {
+    return urlStatus.files;
+  }
+  if (urlStatus.filename && urlStatus.filePath) {
+    return [{
+      format: "pdf",
+      filename: urlStatus.filename,
+      filePath: urlStatus.filePath,
+      fileSize: urlStatus.fileSize ?? 0,
+      pageCount: urlStatus.pageCount,
+    }];
+  }
+  return [];
+}
+
+// Files a job produced, taken from the job record rather than its output directory
+// so that jobs sharing a directory never see each other's files
+export function listJobFiles(job: PdfJob): JobFile[] {
+  return (job.urlStatuses as UrlStatus[])
+    .filter(urlStatus => urlStatus.status === "complete")
+    .flatMap(urlStatus => urlStatusFiles(urlStatus).map(file => ({
+      ...file,
+      url: urlStatus.url,
+      title: urlStatus.title,
+      capturedAt: urlStatus.capturedAt,
+    })));
+}
+
+// A file produced for one of the job's URLs, or the job's merged PDF
+export function findJobFile(job: PdfJob, filename: string): Pick<JobFile, "filename" | "filePath"> | undefined {
+  const mergedFile = job.mergedFile as MergedFile | null;
+  if (mergedFile?.filename === filename) {
+    return mergedFile;
+  }
+  return listJobFiles(job).find(file => file.filename === filename);
+}
+
+// Paths of every file the user's jobs produced, merged PDFs included. Files that have
+// since been deleted are still listed; files a job kept rather than writing are not.
+export async function listOwnedFilePaths(ownerId: number): Promise<Set<string>> {
+  const filePaths = new Set<string>();
+
+  for (let offset = 0; ; offset += JOB_PAGE_SIZE) {
+    const { jobs, total } = await storage.listPdfJobs({ ownerId, limit: JOB_PAGE_SIZE, offset });
+    for (const job of jobs) {
+      const mergedFile = job.mergedFile as MergedFile | null;
+      for (const file of listJobFiles(job)) {
+        // A skipped file was already there, possibly written by someone else
+        if (!file.skipped) {
+          filePaths.add(path.resolve(file.filePath));
+        }
+      }
+      if (mergedFile) {
+        filePaths.add(path.resolve(mergedFile.filePath));
+      }
+    }
+    if (offset + JOB_PAGE_SIZE >= total) {
+      break;
+    }
+  }
+
+  return filePaths;
+}
+
+// Those of filePaths that exist but weren't produced by the user's jobs; without a user, every existing one
+export async function findForeignFiles(ownerId: number | null, filePaths: string[]): Promise<string[]> {
+  const owned = ownerId === null ? new Set<string>() : await listOwnedFilePaths(ownerId);
+  const existing = await Promise.all(filePaths.map(filePath => fs.promises.stat(filePath).then(() => true, () => false)));
+  return filePaths.filter((filePath, index) => existing[index] && !owned.has(path.resolve(filePath)));
+}
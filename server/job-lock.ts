@@ -0,0 +1,17 @@
+// Job records are updated read-modify-write, so updates to one job run one at a time
+const jobLocks = new Map<string, Promise<unknown>>();
+
+export function withJobLock<T>(jobId: string, update: () => Promise<T>): Promise<T> {
+  const previous = jobLocks.get(jobId) ?? Promise.resolve();
+  const result = previous.then(update, update);
+  const tail = result.catch(() => undefined);
+  
+  jobLocks.set(jobId, tail);
+  tail.then(() => {
+    if (jobLocks.get(jobId) === tail) {
+      jobLocks.delete(jobId);
+    }
+  });
+  
+  return result;
+}
@@ -0,0 +1,310 @@
+import type { Page } from 'playwright-chromium';
+import { checkUrl } from "./url-policy";
+
+// Resources larger than this are left as links rather than inlined
+const MAX_RESOURCE_BYTES = 25 * 1024 * 1024;
+const RESOURCE_TIMEOUT_MS = 15000;
+const MAX_IMPORT_DEPTH = 5;
+const MAX_REDIRECTS = 5;
+
+// Placeholders the in-page serializer leaves for the server to fill in
+const RESOURCE_TOKEN = /pdfsnap-resource:(\d+)/g;
+const STYLESHEET_PLACEHOLDER = /<style data-pdfsnap-stylesheet="(\d+)"([^>]*)><\/style>/g;
+const STYLE_BLOCK = /(<style\b[^>]*>)([\s\S]*?)(<\/style>)/gi;
+const CSS_URL = /url\(\s*(['"]?)([^'")]+?)\1\s*\)/g;
+const CSS_IMPORT = /@import\s+(?:url\(\s*)?(['"]?)([^'")\s;]+)\1\s*\)?\s*([^;]*);/g;
+
+interface SerializedPage {
+  html: string;
+  baseUrl: string;
+  // Absolute URLs referenced by pdfsnap-resource:<index> tokens
+  resources: string[];
+  // Absolute URLs of linked stylesheets, by placeholder index
+  stylesheets: string[];
+}
+
+// Save the page as MHTML, the format Chromium uses for "Save page as... single file"
+export async function captureMhtml(page: Page): Promise<Buffer> {
+  const session = await page.context().newCDPSession(page);
+  try {
+    const { data } = await session.send("Page.captureSnapshot", { format: "mhtml" });
+    return Buffer.from(data);
+  } finally {
+    await session.detach().catch(() => undefined);
+  }
+}
+
+// Save the rendered DOM as one HTML file with its stylesheets, images and fonts inlined.
+// Scripts are dropped: the snapshot keeps the page as rendered, not its behaviour.
+export async function captureSelfContainedHtml(page: Page): Promise<Buffer> {
+  const serialized: SerializedPage = await page.evaluate(inPageScript(serializeDocument));
+  const fetcher = new ResourceFetcher(page);
+
+  const resources = await Promise.all(serialized.resources.map(url => fetcher.dataUri(url)));
+  const withResources = (text: string) =>
+    text.replace(RESOURCE_TOKEN, (_, index) => resources[Number(index)] ?? serialized.resources[Number(index)]);
+
+  const stylesheets = await Promise.all(serialized.stylesheets.map(url => fetcher.stylesheet(url)));
+
+  // Inline <style> blocks resolve their URLs against the document
+  let html = await replaceAsync(withResources(serialized.html), STYLE_BLOCK, async (_, open, css, close) =>
+    open.includes("data-pdfsnap-stylesheet")
+      ? `${open}${css}${close}`
+      : `${open}${await fetcher.inlineCss(css, serialized.baseUrl, 0)}${close}`
+  );
+
+  html = html.replace(STYLESHEET_PLACEHOLDER, (_, index, attributes) =>
+    `<style${attributes}>${escapeStyleText(stylesheets[Number(index)] ?? "")}</style>`
+  );
+
+  return Buffer.from(html, "utf8");
+}
+
+// Runs in the page: clone the live DOM and swap every resource reference for a placeholder
+function serializeDocument(): SerializedPage {
+  const resources: string[] = [];
+  const stylesheets: string[] = [];
+  const resourceToken = (url: string) => {
+    if (!url || url.startsWith("data:")) {
+      return url;
+    }
+    resources.push(url);
+    return `pdfsnap-resource:${resources.length - 1}`;
+  };
+  const absolute = (url: string) => {
+    try {
+      return new URL(url, document.baseURI).href;
+    } catch {
+      return url;
+    }
+  };
+  const tokenizeCssUrls = (css: string) =>
+    css.replace(/url\(\s*(['"]?)([^'")]+?)\1\s*\)/g, (match, _quote, url: string) =>
+      url.startsWith("data:") || url.startsWith("#") ? match : `url("${resourceToken(absolute(url))}")`
+    );
+
+  const root = document.documentElement;
+  const clone = root.cloneNode(true) as HTMLElement;
+  const pairs = (selector: string) => {
+    const originals = Array.from(root.querySelectorAll(selector));
+    const copies = Array.from(clone.querySelectorAll(selector));
+    return originals.map((original, index) => [original, copies[index]] as const);
+  };
+
+  // Canvases keep their drawn pixels as images, unless cross-origin content taints them
+  for (const [original, copy] of pairs("canvas")) {
+    try {
+      const image = document.createElement("img");
+      image.src = (original as HTMLCanvasElement).toDataURL();
+      image.setAttribute("style", (original as HTMLElement).getAttribute("style") ?? "");
+      image.width = (original as HTMLCanvasElement).width;
+      image.height = (original as HTMLCanvasElement).height;
+      copy.replaceWith(image);
+    } catch {
+      // Leave the empty canvas
+    }
+  }
+
+  // The image the browser chose from srcset/<picture> is the one that was rendered
+  for (const [original, copy] of pairs("img")) {
+    const source = (original as HTMLImageElement).currentSrc || (original as HTMLImageElement).src;
+    copy.setAttribute("src", resourceToken(source));
+    copy.removeAttribute("srcset");
+    copy.removeAttribute("sizes");
+    copy.removeAttribute("loading");
+  }
+  clone.querySelectorAll("picture source").forEach(element => element.remove());
+
+  // Computed CSSOM rules include ones inserted by scripts, which the element text lacks
+  for (const [original, copy] of pairs("style")) {
+    const sheet = (original as HTMLStyleElement).sheet;
+    if (sheet) {
+      copy.textContent = Array.from(sheet.cssRules).map(rule => rule.cssText).join("\n");
+    }
+  }
+
+  for (const [original, copy] of pairs('link[rel~="stylesheet"]')) {
+    const link = original as HTMLLinkElement;
+    if (link.disabled || !link.href) {
+      copy.remove();
+      continue;
+    }
+    const placeholder = document.createElement("style");
+    placeholder.setAttribute("data-pdfsnap-stylesheet", String(stylesheets.length));
+    if (link.media) {
+      placeholder.setAttribute("media", link.media);
+    }
+    stylesheets.push(link.href);
+    copy.replaceWith(placeholder);
+  }
+
+  for (const element of Array.from(clone.querySelectorAll('link[rel~="icon"]'))) {
+    element.setAttribute("href", resourceToken(absolute(element.getAttribute("href") ?? "")));
+  }
+  for (const element of Array.from(clone.querySelectorAll("video[poster]"))) {
+    element.setAttribute("poster", resourceToken(absolute(element.getAttribute("poster") ?? "")));
+  }
+  for (const element of Array.from(clone.querySelectorAll("[style]"))) {
+    element.setAttribute("style", tokenizeCssUrls(element.getAttribute("style") ?? ""));
+  }
+
+  // Drop behaviour: scripts, resource hints and inline event handlers
+  clone.querySelectorAll('script, noscript, link[rel~="preload"], link[rel~="modulepreload"], link[rel~="prefetch"]')
+    .forEach(element => element.remove());
+  for (const element of Array.from(clone.querySelectorAll("*"))) {
+    for (const attribute of Array.from(element.attributes)) {
+      if (attribute.name.startsWith("on")) {
+        element.removeAttribute(attribute.name);
+      }
+    }
+  }
+
+  // Remaining links point back at the original site
+  for (const element of Array.from(clone.querySelectorAll("a[href]"))) {
+    const href = (element as HTMLAnchorElement).href;
+    if (href.startsWith("javascript:")) {
+      element.removeAttribute("href");
+    } else {
+      element.setAttribute("href", href);
+    }
+  }
+  clone.querySelectorAll("base").forEach(element => element.remove());
+
+  const doctype = document.doctype ? `<!DOCTYPE ${document.doctype.name}>` : "<!DOCTYPE html>";
+  return {
+    html: `${doctype}\n${clone.outerHTML}`,
+    baseUrl: document.baseURI,
+    resources,
+    stylesheets,
+  };
+}
+
+// Fetches resources through the page's browser context, so cookies and CORS match the page
+class ResourceFetcher {
+  private dataUris = new Map<string, Promise<string | null>>();
+
+  constructor(private page: Page) {}
+
+  dataUri(url: string): Promise<string | null> {
+    let cached = this.dataUris.get(url);
+    if (!cached) {
+      cached = this.fetch(url).then(resource =>
+        resource ? `data:${resource.contentType};base64,${resource.body.toString("base64")}` : null
+      );
+      this.dataUris.set(url, cached);
+    }
+    return cached;
+  }
+
+  async stylesheet(url: string): Promise<string | null> {
+    const resource = await this.fetch(url);
+    return resource ? this.inlineCss(resource.body.toString("utf8"), url, 1) : null;
+  }
+
+  // Inline @import rules and url() references of a stylesheet, resolved against its own URL
+  async inlineCss(css: string, baseUrl: string, depth: number): Promise<string> {
+    const withImports = await replaceAsync(css, CSS_IMPORT, async (match, _quote, href, media) => {
+      const url = resolveUrl(href, baseUrl);
+      if (!url || depth >= MAX_IMPORT_DEPTH) {
+        return match;
+      }
+      const resource = await this.fetch(url);
+      if (!resource) {
+        return match;
+      }
+      const imported = await this.inlineCss(resource.body.toString("utf8"), url, depth + 1);
+      return media.trim() ? `@media ${media.trim()} {\n${imported}\n}` : imported;
+    });
+
+    return replaceAsync(withImports, CSS_URL, async (match, _quote, href) => {
+      if (href.startsWith("data:") || href.startsWith("#")) {
+        return match;
+      }
+      const url = href.startsWith("pdfsnap-resource:") ? null : resolveUrl(href, baseUrl);
+      const dataUri = url ? await this.dataUri(url) : null;
+      return dataUri ? `url("${dataUri}")` : match;
+    });
+  }
+
+  // Requests from here don't pass through the page's routing, so each redirect hop
+  // is followed by hand and checked against the URL policy
+  private async fetch(url: string): Promise<{ body: Buffer; contentType: string } | null> {
+    try {
+      let response;
+      for (let redirects = 0; ; redirects++) {
+        const refusal = await checkUrl(url);
+        if (refusal) {
+          console.log(`Not inlining ${url}: ${refusal}`);
+          return null;
+        }
+
+        response = await this.page.context().request.get(url, {
+          timeout: RESOURCE_TIMEOUT_MS,
+          failOnStatusCode: false,
+          maxRedirects: 0,
+        });
+
+        const location = response.headers()["location"];
+        if (response.status() < 300 || response.status() >= 400 || !location || redirects >= MAX_REDIRECTS) {
+          break;
+        }
+        await response.dispose();
+        url = new URL(location, url).href;
+      }
+
+      if (!response.ok()) {
+        return null;
+      }
+
+      const body = await response.body();
+      if (body.length > MAX_RESOURCE_BYTES) {
+        return null;
+      }
+
+      const contentType = (response.headers()["content-type"] ?? "application/octet-stream").split(";")[0].trim();
+      return { body, contentType };
+    } catch (error) {
+      console.error(`Could not inline ${url}: ${(error as Error).message}`);
+      return null;
+    }
+  }
+}
+
+// Source for running a function in the page, called with the values of the given
+// expressions. tsx keeps function names through an __name helper, which has to exist
+// in the page too when the source is sent over.
+export function inPageScript(fn: (...args: never[]) => unknown, bindings: Record<string, string> = {}): string {
+  const names = Object.keys(bindings);
+  const declarations = names.map(name => `const ${name} = ${bindings[name]};`).join("\n");
+  return `(() => {\nconst __name = target => target;\n${declarations}\nreturn (${fn})(${names.join(", ")});\n})()`;
+}
+
+function resolveUrl(href: string, baseUrl: string): string | null {
+  try {
+    return new URL(href, baseUrl).href;
+  } catch {
+    return null;
+  }
+}
+
+// Keep inlined CSS from closing its <style> element early
+function escapeStyleText(css: string): string {
+  return css.replace(/<\/style/gi, "<\\/style");
+}
+
+async function replaceAsync(
+  text: string,
+  pattern: RegExp,
+  replacer: (match: string, ...groups: string[]) => Promise<string>
+): Promise<string> {
+  const matches = Array.from(text.matchAll(pattern));
+  const replacements = await Promise.all(matches.map(match => replacer(match[0], ...match.slice(1))));
+
+  let result = "";
+  let lastIndex = 0;
+  matches.forEach((match, index) => {
+    result += text.slice(lastIndex, match.index) + replacements[index];
+    lastIndex = match.index! + match[0].length;
+  });
+  return result + text.slice(lastIndex);
+}
@@ -1,19 +1,54 @@
 import { storage } from "./storage";
 import fs from "fs";
 import path from "path";
-import { UrlStatus } from "@shared/schema";
-import { chromium } from 'playwright-chromium';
+import {
+  PdfJob,
+  MergedFile,
+  MergePdfOptions,
+  UrlStatus,
+  JobOptions,
+  PdfOptions,
+  RetryOptions,
+  RetryErrorClass,
+  OutputFormat,
+  OutputFile,
+  ScreenshotOptions,
+} from "@shared/schema";
+import { errors, type BrowserContext, type Page } from 'playwright-chromium';
+import { resolveHeaderFooter, type HeaderFooterContext } from "./header-footer";
+import { browserPool } from "./browser-pool";
+import { captureMhtml, captureSelfContainedHtml } from "./page-snapshot";
+import { captureMarkdown, captureText } from "./readable-content";
+import { DEFAULT_FILENAME_TEMPLATE, resolveFilename, writeOutputFiles } from "./filenames";
+import { guardPage } from "./url-policy";
+import { publishJobStatus, publishUrlStatus } from "./job-events";
+import { withJobLock } from "./job-lock";
+import { sendJobWebhook } from "./webhooks";
+import { mergeJobPdfs } from "./pdf-merge";
+import { findForeignFiles } from "./job-files";
+import { assertStorageAvailable } from "./quotas";
+import { config } from "./config";
+import { randomUUID } from "crypto";
+import { PDFDocument } from "pdf-lib";
 
-// Keep track of active browser contexts for cleanup
-const activeBrowsers = new Map<string, any>();
+// Jobs currently rendering in this process; cancelling removes the job so its workers stop
+const activeJobs = new Set<string>();
+
+// URL indexes still to render for each active job; retries append to a running job's queue
+const jobQueues = new Map<string, number[]>();
+
+// Longest pause between retries; also keeps the delay within what setTimeout accepts
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
 
 // Generate PDFs for a list of URLs
 export async function generatePdfs(
   jobId: string,
   urls: string[],
-  outputPath: string
+  outputPath: string,
+  options: JobOptions = {}
 ): Promise<void> {
-  let browser = null;
+  activeJobs.add(jobId);
+  let finished = false;
   
   try {
     console.log(`Starting PDF generation for job ${jobId} with ${urls.length} URLs`);
@@ -38,109 +73,79 @@ export async function generatePdfs(
     // Update job status
     await updateJobStatus(jobId, "processing");
     
-    // Launch browser once for all URLs, using system Chromium
-    browser = await chromium.launch({
-      headless: true,
-      executablePath: '/nix/store/zi4f80l169xlmivz8vja8wlphq74qqk0-chromium-125.0.6422.141/bin/chromium',
-      args: ['--no-sandbox', '--disable-setuid-sandbox']
-    });
-    
-    // Store the browser for potential cancellation
-    activeBrowsers.set(jobId, browser);
+    // URLs that already finished (e.g. before a restart) are not rendered again
+    const existingJob = await storage.getPdfJob(jobId);
+    const initialStatuses = (existingJob?.urlStatuses ?? []) as UrlStatus[];
+    const queue = urls
+      .map((_, index) => index)
+      .filter(index => !isFinishedUrlStatus(initialStatuses[index]?.status));
+    jobQueues.set(jobId, queue);
     
-    let successCount = 0;
-    let failCount = 0;
+    // Each worker takes the next unrendered URL until none are left or the job is cancelled
+    const worker = async () => {
+      while (activeJobs.has(jobId)) {
+        const index = queue.shift();
+        if (index === undefined) {
+          break;
+        }
+        await renderUrl(jobId, index, urls[index], urls.length, outputPath, options);
+      }
+    };
     
-    // Process each URL using Playwright
-    for (let i = 0; i < urls.length; i++) {
-      const url = urls[i];
-      console.log(`Processing URL (${i+1}/${urls.length}): ${url}`);
+    while (!finished) {
+      const workerCount = Math.min(
+        options.concurrency ?? 1,
+        config.maxConcurrency,
+        queue.length
+      );
+      console.log(`Rendering ${queue.length} URLs with ${workerCount} parallel workers`);
       
-      // Create a new context for each URL
-      const context = await browser.newContext({
-        viewport: { width: 1280, height: 1024 }
-      });
-      const page = await context.newPage();
+      await Promise.all(Array.from({ length: workerCount }, worker));
       
-      try {
-        // Update URL status
-        await updateUrlStatus(jobId, i, "processing");
-        
-        // Generate a filename based on the URL
-        // Extract domain for a cleaner filename
-        let domain = url.replace(/^https?:\/\//, '').replace(/^www\./, '').split('/')[0];
-        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-        const filename = `${domain}_${timestamp}.pdf`;
-        const filePath = path.join(outputPath, filename);
-        
-        console.log(`Navigating to URL: ${url}`);
-        
-        // Navigate to URL with timeout and wait until network is idle
-        await page.goto(url, { 
-          waitUntil: 'networkidle',
-          timeout: 60000 // Increase timeout to 60 seconds
-        });
-        
-        console.log('Page loaded, waiting for content to render');
-        
-        // Wait a bit for any additional content to render
-        await page.waitForTimeout(2000);
-        
-        // Scroll to bottom to load lazy content
-        await autoScroll(page);
-        
-        console.log('Page scrolled, waiting before PDF creation');
-        
-        // Wait a bit more after scrolling
-        await page.waitForTimeout(1000);
-        
-        console.log(`Generating PDF: ${filePath}`);
+      // Update job status to completed, unless it was cancelled or more URLs were queued meanwhile
+      finished = await withJobLock(jobId, async () => {
+        if (queue.length > 0 && activeJobs.has(jobId)) {
+          return false;
+        }
         
-        // Generate PDF
-        await page.pdf({
-          path: filePath,
-          format: 'A4',
-          printBackground: true,
-          margin: {
-            top: '0.4in',
-            right: '0.4in',
-            bottom: '0.4in',
-            left: '0.4in'
+        // A job cancelled or failed meanwhile keeps that status and is not announced again
+        const job = await storage.getPdfJob(jobId);
+        if (job && !isTerminalJob(job)) {
+          const urlStatuses = job.urlStatuses as UrlStatus[];
+          const successCount = urlStatuses.filter(u => u.status === "complete").length;
+          const failCount = urlStatuses.filter(u => u.status === "failed").length;
+          
+          console.log(`PDF generation complete. Success: ${successCount}, Failed: ${failCount}`);
+          
+          // A failed merge is logged but leaves the job itself completed
+          let mergedFile = job.mergedFile as MergedFile | null;
+          if (options.merge && successCount > 0) {
+            try {
+              if (job.ownerId !== null) {
+                await assertStorageAvailable(job.ownerId);
+              }
+              mergedFile = await mergeJobPdfs({ ...job, outputPath }, options.merge);
+            } catch (error) {
+              console.error(`Failed to merge PDFs of job ${jobId}:`, error);
+            }
+          }
+          
+          const updated = await storage.updatePdfJob(jobId, {
+            status: "completed",
+            completed: true,
+            successCount,
+            failCount,
+            mergedFile,
+            outputPath: outputPath // Update with potentially modified path
+          });
+          if (updated) {
+            announceJobUpdate(updated);
           }
-        });
-        
-        // Check if the file was created
-        if (fs.existsSync(filePath)) {
-          console.log(`PDF saved successfully: ${filePath}`);
-          // Update URL status
-          await updateUrlStatus(jobId, i, "complete");
-          successCount++;
-        } else {
-          throw new Error("PDF file was not created");
         }
-      } catch (error) {
-        console.error(`Error processing URL ${url}: ${(error as Error).message}`);
-        // Update URL status to failed
-        await updateUrlStatus(jobId, i, "failed", (error as Error).message);
-        failCount++;
-      } finally {
-        // Close the context for this URL
-        await context.close();
-      }
-    }
-    
-    console.log(`PDF generation complete. Success: ${successCount}, Failed: ${failCount}`);
-    
-    // Update job status to completed
-    const job = await storage.getPdfJob(jobId);
-    if (job) {
-      await storage.updatePdfJob(jobId, {
-        ...job,
-        status: "completed",
-        completed: true,
-        successCount,
-        failCount,
-        outputPath: outputPath // Update with potentially modified path
+        
+        activeJobs.delete(jobId);
+        jobQueues.delete(jobId);
+        return true;
       });
     }
   } catch (error) {
@@ -149,18 +154,498 @@ export async function generatePdfs(
     // Update job status to failed
     await updateJobStatus(jobId, "failed", (error as Error).message);
   } finally {
-    // Cleanup browser
-    if (browser) {
-      try {
-        await browser.close();
-        activeBrowsers.delete(jobId);
-      } catch (err) {
-        console.error("Error closing browser:", err);
+    // A finished job may already have been restarted by a retry, so only clean up after errors
+    if (!finished) {
+      activeJobs.delete(jobId);
+      jobQueues.delete(jobId);
+    }
+  }
+}
+
+// Render a single URL to PDF, retrying as the job allows; resolves to whether it succeeded
+async function renderUrl(
+  jobId: string,
+  index: number,
+  url: string,
+  total: number,
+  outputPath: string,
+  options: JobOptions
+): Promise<boolean> {
+  const retry = resolveRetryOptions(options.retry);
+  
+  for (let attempt = 1; ; attempt++) {
+    // A job cancelled while this URL waited to be retried leaves its record as cancelled
+    if (!activeJobs.has(jobId)) {
+      console.log(`Job ${jobId} was cancelled, not rendering ${url}`);
+      return false;
+    }
+    
+    console.log(`Processing URL (${index+1}/${total}), attempt ${attempt}/${retry.maxAttempts}: ${url}`);
+    
+    try {
+      // Update URL status
+      await updateUrlStatus(jobId, index, {
+        status: "processing",
+        attempt,
+        maxAttempts: retry.maxAttempts,
+        startedAt: new Date().toISOString()
+      });
+      
+      const file = await renderAttempt(jobId, url, { index, total }, outputPath, options);
+      
+      await updateUrlStatus(jobId, index, {
+        status: "complete",
+        error: undefined,
+        ...file,
+        capturedAt: new Date().toISOString()
+      });
+      return true;
+    } catch (error) {
+      const message = (error as Error).message;
+      const errorClass = classifyError(error);
+      const willRetry = attempt < retry.maxAttempts
+        && retry.retryOn.includes(errorClass)
+        && activeJobs.has(jobId);
+      
+      console.error(`Error processing URL ${url} (${errorClass}): ${message}`);
+      
+      // Keep every attempt's error; the URL only fails once no retries remain
+      await updateUrlStatus(jobId, index, current => ({
+        status: willRetry ? "retrying" : "failed",
+        error: message,
+        attempts: [
+          ...(current.attempts ?? []),
+          { attempt, error: message, errorClass, failedAt: new Date().toISOString() }
+        ]
+      }));
+      
+      if (!willRetry) {
+        return false;
       }
+      
+      const delay = Math.min(retry.backoffMs * retry.backoffMultiplier ** (attempt - 1), MAX_RETRY_DELAY_MS);
+      console.log(`Retrying ${url} in ${delay}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+// Details of the rendered files kept on their URL status
+type RenderedFiles = Pick<UrlStatus, "filename" | "filePath" | "fileSize" | "pageCount" | "files" | "title">;
+
+const fileExtensions: Record<OutputFormat, string> = {
+  pdf: "pdf",
+  png: "png",
+  jpeg: "jpg",
+  webp: "webp",
+  mhtml: "mhtml",
+  html: "html",
+  markdown: "md",
+  text: "txt",
+};
+
+// One render of a URL for a job, producing a file per output format; resolves to the files' details
+async function renderAttempt(
+  jobId: string,
+  url: string,
+  position: { index: number; total: number },
+  outputPath: string,
+  options: JobOptions
+): Promise<RenderedFiles> {
+  const formats = options.outputFormats ?? ["pdf"];
+  
+  const { captures, title } = await withLoadedPage(jobId, url, async page => ({
+    captures: await captureFormats(page, url, formats, options),
+    title: await pageTitle(page),
+  }));
+  
+  // Names can depend on the page title, so they are only resolved once the page has loaded
+  const basename = resolveFilename(options.filenameTemplate ?? DEFAULT_FILENAME_TEMPLATE, {
+    url,
+    title,
+    ...position,
+    jobId,
+    date: new Date(),
+  });
+  const outputFiles = captures.map(({ format, data }) => ({ extension: fileExtensions[format], data }));
+  const collision = options.filenameCollision ?? "suffix";
+  
+  // Users share the file roots, so only the user's own files may be overwritten
+  if (collision === "overwrite") {
+    const job = await storage.getPdfJob(jobId);
+    const targets = outputFiles.map(({ extension }) => path.join(outputPath, `${basename}.${extension}`));
+    const [foreign] = await findForeignFiles(job?.ownerId ?? null, targets);
+    if (foreign) {
+      throw new Error(`Not overwriting ${foreign}: it wasn't produced by your jobs`);
+    }
+  }
+  
+  const written = await writeOutputFiles(outputPath, basename, outputFiles, collision);
+  
+  const files: OutputFile[] = [];
+  for (let index = 0; index < captures.length; index++) {
+    const { format, data } = captures[index];
+    const { filename, filePath, skipped } = written[index];
+    console.log(`${skipped ? "Kept existing" : "Wrote"} ${format.toUpperCase()}: ${filePath}`);
+    
+    files.push({
+      format,
+      filename,
+      filePath,
+      fileSize: skipped ? (await fs.promises.stat(filePath)).size : data.length,
+      pageCount: format === "pdf" && !skipped ? await countPages(data) : undefined,
+      skipped: skipped || undefined,
+    });
+  }
+  
+  console.log(`Saved ${files.length} file(s) for ${url}`);
+  
+  // The first file is also recorded on the URL status itself
+  const [primary] = files;
+  return {
+    filename: primary.filename,
+    filePath: primary.filePath,
+    fileSize: primary.fileSize,
+    pageCount: primary.pageCount,
+    files,
+    title,
+  };
+}
+
+// A page count that can't be read is left out rather than failing the render
+async function countPages(pdf: Buffer): Promise<number | undefined> {
+  try {
+    const document = await PDFDocument.load(pdf, { updateMetadata: false });
+    return document.getPageCount();
+  } catch (error) {
+    console.error(`Could not count PDF pages: ${(error as Error).message}`);
+    return undefined;
+  }
+}
+
+async function pageTitle(page: Page): Promise<string | undefined> {
+  const title = (await page.title().catch(() => "")).trim();
+  return title || undefined;
+}
+
+// Load a URL in a pooled browser context and hand the settled page to capture.
+// Aborting the signal closes the context, which makes any pending page operation fail.
+async function withLoadedPage<T>(
+  ownerId: string,
+  url: string,
+  capture: (page: Page) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  let context: BrowserContext | null = null;
+  const abort = () => {
+    context?.close().catch(() => undefined);
+  };
+  
+  try {
+    // Borrow a new context from the shared pool for each URL
+    // Requests made by service workers would bypass the URL policy's request routing
+    context = await browserPool.acquireContext(ownerId, {
+      viewport: { width: 1280, height: 1024 },
+      serviceWorkers: "block"
+    });
+    signal?.throwIfAborted();
+    signal?.addEventListener("abort", abort, { once: true });
+    
+    const page = await context.newPage();
+    const assertPolicyKept = await guardPage(context, page, url);
+    
+    console.log(`Navigating to URL: ${url}`);
+    
+    // Navigate to URL with timeout and wait until network is idle; a refused
+    // navigation fails with a network error, which the policy explains better
+    try {
+      await page.goto(url, { 
+        waitUntil: 'networkidle',
+        timeout: config.timeouts.navigationMs
+      });
+    } catch (error) {
+      assertPolicyKept();
+      throw error;
+    }
+    
+    console.log('Page loaded, waiting for content to render');
+    
+    // Wait a bit for any additional content to render
+    await page.waitForTimeout(config.timeouts.renderDelayMs);
+    
+    // Scroll to bottom to load lazy content
+    await autoScroll(page);
+    
+    console.log('Page scrolled, waiting before capture');
+    
+    // Wait a bit more after scrolling
+    await page.waitForTimeout(config.timeouts.scrollSettleMs);
+    
+    assertPolicyKept();
+    const result = await capture(page);
+    assertPolicyKept();
+    return result;
+  } finally {
+    signal?.removeEventListener("abort", abort);
+    
+    // Return the context for this URL to the pool
+    if (context) {
+      await browserPool.releaseContext(context);
     }
   }
 }
 
+async function captureFormats(
+  page: Page,
+  url: string,
+  formats: OutputFormat[],
+  options: JobOptions
+): Promise<Array<{ format: OutputFormat; data: Buffer }>> {
+  const captures: Array<{ format: OutputFormat; data: Buffer }> = [];
+  
+  for (const format of formats) {
+    console.log(`Capturing ${format.toUpperCase()} of ${url}`);
+    captures.push({ format, data: await captureFormat(page, url, format, options) });
+  }
+  
+  return captures;
+}
+
+// All formats are captured from the same loaded page
+function captureFormat(page: Page, url: string, format: OutputFormat, options: JobOptions): Promise<Buffer> {
+  switch (format) {
+    case "pdf":
+      return capturePdf(page, url, options.pdfOptions);
+    case "mhtml":
+      return captureMhtml(page);
+    case "html":
+      return captureSelfContainedHtml(page);
+    case "markdown":
+      return captureMarkdown(page, url);
+    case "text":
+      return captureText(page, url);
+    default:
+      return captureScreenshot(page, format, options.screenshot);
+  }
+}
+
+function capturePdf(page: Page, url: string, pdfOptions?: PdfOptions): Promise<Buffer> {
+  return page.pdf(buildPdfOptions(pdfOptions, {
+    sourceUrl: url,
+    capturedAt: new Date().toISOString()
+  }));
+}
+
+// Full-page screenshot of the already scrolled page
+async function captureScreenshot(
+  page: Page,
+  format: "png" | "jpeg" | "webp",
+  options: ScreenshotOptions = {}
+): Promise<Buffer> {
+  if (format !== "webp") {
+    return page.screenshot({
+      fullPage: true,
+      type: format,
+      quality: format === "jpeg" ? options.quality : undefined
+    });
+  }
+  
+  // Playwright only writes PNG and JPEG, so WebP is captured through the DevTools protocol
+  const session = await page.context().newCDPSession(page);
+  try {
+    const { width, height } = await page.evaluate(() => ({
+      width: document.documentElement.scrollWidth,
+      height: document.documentElement.scrollHeight
+    }));
+    const { data } = await session.send("Page.captureScreenshot", {
+      format: "webp",
+      quality: options.quality,
+      captureBeyondViewport: true,
+      clip: { x: 0, y: 0, width, height, scale: 1 }
+    });
+    return Buffer.from(data, "base64");
+  } finally {
+    await session.detach().catch(() => undefined);
+  }
+}
+
+// Renders in progress through the synchronous render endpoint
+let activeRenders = 0;
+
+export class RenderBusyError extends Error {}
+
+export class RenderTimeoutError extends Error {}
+
+// The caller's signal aborted the render, e.g. because the client disconnected
+export class RenderCancelledError extends Error {}
+
+// Render a single URL outside of the job queue, optionally saving a copy to a directory.
+// A saved copy is recorded on jobId, a one-URL job the caller created, which finishes
+// with the render either way. Rejects with RenderBusyError when the server is at its
+// render limit, RenderTimeoutError when the render takes longer than timeoutMs and
+// RenderCancelledError when the caller's signal aborts it.
+export async function renderSingleUrl(
+  url: string,
+  options: { pdfOptions?: PdfOptions; outputPath?: string; jobId?: string; timeoutMs: number; signal?: AbortSignal }
+): Promise<{ pdf: Buffer; filename: string; savedPath?: string }> {
+  try {
+    const result = await renderSingleUrlOnce(url, options);
+    if (options.jobId && result.savedPath) {
+      const filename = path.basename(result.savedPath);
+      const file = { format: "pdf" as const, filename, filePath: result.savedPath, fileSize: result.pdf.length };
+      await finishRenderJob(options.jobId, {
+        url,
+        status: "complete",
+        ...file,
+        files: [file],
+        capturedAt: new Date().toISOString(),
+      });
+    }
+    return result;
+  } catch (error) {
+    if (options.jobId) {
+      await finishRenderJob(options.jobId, { url, status: "failed", error: (error as Error).message });
+    }
+    throw error;
+  }
+}
+
+// Settle the job recording a saved single render; a job cancelled meanwhile stays cancelled
+async function finishRenderJob(jobId: string, urlStatus: UrlStatus): Promise<void> {
+  await withJobLock(jobId, async () => {
+    const job = await storage.getPdfJob(jobId);
+    if (!job || isTerminalJob(job)) {
+      return;
+    }
+    
+    const failed = urlStatus.status === "failed";
+    const updated = await storage.updatePdfJob(jobId, {
+      status: failed ? "failed" : "completed",
+      error: failed ? urlStatus.error ?? null : null,
+      completed: true,
+      urlStatuses: [urlStatus],
+      successCount: failed ? 0 : 1,
+      failCount: failed ? 1 : 0,
+    });
+    if (updated) {
+      announceJobUpdate(updated);
+    }
+  });
+}
+
+async function renderSingleUrlOnce(
+  url: string,
+  options: { pdfOptions?: PdfOptions; outputPath?: string; timeoutMs: number; signal?: AbortSignal }
+): Promise<{ pdf: Buffer; filename: string; savedPath?: string }> {
+  if (activeRenders >= config.render.maxConcurrent) {
+    throw new RenderBusyError(`Too many renders in progress (limit ${config.render.maxConcurrent})`);
+  }
+  
+  activeRenders++;
+  // The abort reason tells a timeout apart from the caller giving up
+  const controller = new AbortController();
+  const timer = setTimeout(() => {
+    controller.abort(new RenderTimeoutError(`Rendering ${url} took longer than ${options.timeoutMs}ms`));
+  }, options.timeoutMs);
+  const cancel = () => controller.abort(new RenderCancelledError(`Rendering ${url} was cancelled`));
+  if (options.signal?.aborted) {
+    cancel();
+  }
+  options.signal?.addEventListener("abort", cancel, { once: true });
+  
+  try {
+    const renderId = `render-${randomUUID()}`;
+    const basename = resolveFilename(DEFAULT_FILENAME_TEMPLATE, {
+      url,
+      index: 0,
+      total: 1,
+      jobId: renderId,
+      date: new Date(),
+    });
+    
+    // Stop waiting as soon as the render is aborted, even while it waits for a browser context
+    const render = withLoadedPage(
+      renderId,
+      url,
+      page => capturePdf(page, url, options.pdfOptions),
+      controller.signal
+    );
+    render.catch(() => undefined);
+    const aborted = new Promise<never>((_, reject) => {
+      if (controller.signal.aborted) {
+        reject(controller.signal.reason);
+      }
+      controller.signal.addEventListener("abort", () => reject(controller.signal.reason), { once: true });
+    });
+    
+    const pdf = await Promise.race([render, aborted]);
+    
+    let savedPath: string | undefined;
+    if (options.outputPath) {
+      const [saved] = await writeOutputFiles(options.outputPath, basename, [{ extension: "pdf", data: pdf }], "suffix");
+      savedPath = saved.filePath;
+      console.log(`PDF saved successfully: ${savedPath}`);
+    }
+    
+    return { pdf, filename: `${basename}.pdf`, savedPath };
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener("abort", cancel);
+    activeRenders--;
+  }
+}
+
+// Without retry settings a URL gets a single attempt
+function resolveRetryOptions(retry: RetryOptions = {}): Required<RetryOptions> {
+  return {
+    maxAttempts: retry.maxAttempts ?? 1,
+    backoffMs: retry.backoffMs ?? 5000,
+    backoffMultiplier: retry.backoffMultiplier ?? 2,
+    retryOn: retry.retryOn ?? ["timeout", "network"]
+  };
+}
+
+// Sort render errors into the classes a job can choose to retry
+function classifyError(error: unknown): RetryErrorClass {
+  if (error instanceof errors.TimeoutError) {
+    return "timeout";
+  }
+  
+  const message = (error as Error)?.message ?? "";
+  if (/net::ERR_|ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|socket hang up/i.test(message)) {
+    return "network";
+  }
+  
+  return "other";
+}
+
+// Merge per-job render options over the defaults
+function buildPdfOptions(
+  pdfOptions: PdfOptions = {},
+  context: HeaderFooterContext
+): Parameters<Page["pdf"]>[0] {
+  const {
+    format, width, height, margin,
+    displayHeaderFooter, headerFooterPreset, headerTemplate, footerTemplate,
+    ...rest
+  } = pdfOptions;
+  
+  return {
+    // A custom size replaces the paper format
+    ...(width && height ? { width, height } : { format: format ?? 'A4' }),
+    printBackground: true,
+    margin: {
+      top: '0.4in',
+      right: '0.4in',
+      bottom: '0.4in',
+      left: '0.4in',
+      ...margin
+    },
+    ...resolveHeaderFooter(pdfOptions, context),
+    ...rest
+  };
+}
+
 // Function to scroll page to bottom
 async function autoScroll(page: any) {
   return page.evaluate(async () => {
@@ -181,6 +666,131 @@ async function autoScroll(page: any) {
   });
 }
 
+// Completed, failed and cancelled jobs only change again when their failed URLs are retried
+function isTerminalJob(job: PdfJob): boolean {
+  return job.completed || job.status === "completed" || job.status === "failed" || job.status === "cancelled";
+}
+
+function isFinishedUrlStatus(status?: UrlStatus["status"]): boolean {
+  return status === "complete" || status === "failed";
+}
+
+// Pick up jobs left unfinished by a previous server process
+export async function resumeInterruptedJobs(): Promise<void> {
+  const jobs = await storage.getUnfinishedPdfJobs();
+  
+  for (const job of jobs) {
+    if (activeJobs.has(job.jobId)) {
+      continue;
+    }
+    
+    // URLs that were mid-render or waiting to retry when the process died start over
+    const urlStatuses = (job.urlStatuses as UrlStatus[]).map(urlStatus =>
+      urlStatus.status === "processing" || urlStatus.status === "retrying"
+        ? { ...urlStatus, status: "pending" as const, error: undefined }
+        : urlStatus
+    );
+    const remaining = urlStatuses.filter(u => !isFinishedUrlStatus(u.status)).length;
+    
+    await withJobLock(job.jobId, () => storage.updatePdfJob(job.jobId, { urlStatuses }));
+    
+    console.log(`Resuming job ${job.jobId} with ${remaining} of ${urlStatuses.length} URLs remaining`);
+    generatePdfs(job.jobId, job.urls as string[], job.outputPath, job.options as JobOptions);
+  }
+}
+
+// Re-queue a job's failed URLs, either into the job itself or into a new child job.
+// Resolves to the id of the job doing the work, or undefined when nothing failed.
+export async function retryFailedUrls(
+  jobId: string,
+  mode: "same" | "child"
+): Promise<string | undefined> {
+  if (mode === "child") {
+    const job = await storage.getPdfJob(jobId);
+    const failedUrls = ((job?.urlStatuses ?? []) as UrlStatus[])
+      .filter(u => u.status === "failed")
+      .map(u => u.url);
+    
+    if (!job || failedUrls.length === 0) {
+      return undefined;
+    }
+    
+    const childJobId = randomUUID();
+    await storage.createPdfJob({
+      jobId: childJobId,
+      parentJobId: jobId,
+      ownerId: job.ownerId,
+      urls: failedUrls,
+      outputPath: job.outputPath,
+      status: "pending",
+      completed: false,
+      urlStatuses: failedUrls.map(url => ({ url, status: "pending" })),
+      options: job.options as JobOptions,
+    });
+    
+    console.log(`Retrying ${failedUrls.length} failed URLs of job ${jobId} in child job ${childJobId}`);
+    generatePdfs(childJobId, failedUrls, job.outputPath, job.options as JobOptions);
+    return childJobId;
+  }
+  
+  return withJobLock(jobId, async () => {
+    const job = await storage.getPdfJob(jobId);
+    const urlStatuses = [...((job?.urlStatuses ?? []) as UrlStatus[])];
+    const failedIndexes = urlStatuses
+      .map((urlStatus, index) => urlStatus.status === "failed" ? index : -1)
+      .filter(index => index >= 0);
+    
+    if (!job || failedIndexes.length === 0) {
+      return undefined;
+    }
+    
+    // Earlier attempts stay in the history; the retry starts a fresh attempt count
+    for (const index of failedIndexes) {
+      urlStatuses[index] = { ...urlStatuses[index], status: "pending", error: undefined, attempt: undefined };
+    }
+    
+    console.log(`Retrying ${failedIndexes.length} failed URLs of job ${jobId}`);
+    
+    const queue = jobQueues.get(jobId);
+    if (activeJobs.has(jobId) && queue) {
+      await storage.updatePdfJob(jobId, { urlStatuses });
+      queue.push(...failedIndexes);
+    } else {
+      const updated = await storage.updatePdfJob(jobId, {
+        urlStatuses,
+        status: "pending",
+        error: null,
+        completed: false,
+        failCount: job.failCount - failedIndexes.length,
+      });
+      if (updated) {
+        announceJobUpdate(updated);
+      }
+      generatePdfs(jobId, job.urls as string[], job.outputPath, job.options as JobOptions);
+    }
+    
+    for (const index of failedIndexes) {
+      publishUrlStatus(jobId, index, urlStatuses[index]);
+    }
+    
+    return jobId;
+  });
+}
+
+// Merge a finished job's PDFs into one file and record it on the job
+export async function mergeJob(jobId: string, options: MergePdfOptions): Promise<MergedFile | undefined> {
+  return withJobLock(jobId, async () => {
+    const job = await storage.getPdfJob(jobId);
+    if (!job) {
+      return undefined;
+    }
+    
+    const mergedFile = await mergeJobPdfs(job, options);
+    await storage.updatePdfJob(jobId, { mergedFile });
+    return mergedFile;
+  });
+}
+
 // Get the status of a job
 export async function getJobStatus(jobId: string) {
   const job = await storage.getPdfJob(jobId);
@@ -189,70 +799,89 @@ export async function getJobStatus(jobId: string) {
 
 // Cancel a job
 export async function cancelJob(jobId: string): Promise<boolean> {
-  const job = await storage.getPdfJob(jobId);
+  // Checked under the job's lock so a job that finishes meanwhile is not also cancelled
+  const updated = await withJobLock(jobId, async () => {
+    const job = await storage.getPdfJob(jobId);
+    if (!job || isTerminalJob(job)) {
+      return undefined;
+    }
+    
+    // Stop the job's workers from taking further URLs
+    activeJobs.delete(jobId);
+    return storage.updatePdfJob(jobId, {
+      status: "cancelled",
+      completed: true,
+    });
+  });
   
-  if (!job || job.completed) {
+  if (!updated) {
     return false;
   }
+  announceJobUpdate(updated);
   
-  // Close and cleanup any active browser
-  const browser = activeBrowsers.get(jobId);
-  if (browser) {
-    try {
-      console.log(`Closing browser for cancelled job ${jobId}`);
-      await browser.close();
-      activeBrowsers.delete(jobId);
-    } catch (error) {
-      console.error(`Error closing browser for job ${jobId}:`, error);
-    }
+  // Close only the contexts the job borrowed
+  try {
+    console.log(`Closing browser contexts for cancelled job ${jobId}`);
+    await browserPool.closeJobContexts(jobId);
+  } catch (error) {
+    console.error(`Error closing browser contexts for job ${jobId}:`, error);
   }
   
-  // Update job status
-  await storage.updatePdfJob(jobId, {
-    ...job,
-    status: "cancelled",
-    completed: true,
-  });
-  
   return true;
 }
 
-// Helper function to update job status
-async function updateJobStatus(jobId: string, status: string, error?: string): Promise<void> {
-  const job = await storage.getPdfJob(jobId);
+// Tell live event streams about a job update, and the job's webhook once it has finished
+function announceJobUpdate(job: PdfJob) {
+  publishJobStatus(job);
   
-  if (job) {
-    await storage.updatePdfJob(jobId, {
-      ...job,
-      status,
-      completed: status === "completed" || status === "failed",
+  if (job.completed) {
+    sendJobWebhook(job).catch(error => {
+      console.error(`Error sending webhook for job ${job.jobId}:`, error);
     });
   }
 }
 
-// Helper function to update URL status
+// Helper function to update job status; the error is kept on the job when it fails
+async function updateJobStatus(jobId: string, status: string, error?: string): Promise<void> {
+  await withJobLock(jobId, async () => {
+    const job = await storage.getPdfJob(jobId);
+    
+    // A job that already finished, e.g. was cancelled, keeps its status
+    if (job && !isTerminalJob(job)) {
+      const updated = await storage.updatePdfJob(jobId, {
+        status,
+        error: status === "failed" ? error ?? null : null,
+        completed: status === "completed" || status === "failed",
+      });
+      if (updated) {
+        announceJobUpdate(updated);
+      }
+    }
+  });
+}
+
+// Helper function to update URL status; the update may be computed from the current entry
 async function updateUrlStatus(
   jobId: string,
   urlIndex: number,
-  status: "pending" | "processing" | "complete" | "failed",
-  error?: string
+  update: Partial<UrlStatus> | ((current: UrlStatus) => Partial<UrlStatus>)
 ): Promise<void> {
-  const job = await storage.getPdfJob(jobId);
-  
-  if (job && Array.isArray(job.urlStatuses)) {
-    const urlStatuses = [...job.urlStatuses] as UrlStatus[];
+  await withJobLock(jobId, async () => {
+    const job = await storage.getPdfJob(jobId);
     
-    if (urlIndex >= 0 && urlIndex < urlStatuses.length) {
-      urlStatuses[urlIndex] = {
-        ...urlStatuses[urlIndex],
-        status,
-        error,
-      };
+    if (job && Array.isArray(job.urlStatuses)) {
+      const urlStatuses = [...job.urlStatuses] as UrlStatus[];
       
-      await storage.updatePdfJob(jobId, {
-        ...job,
-        urlStatuses,
-      });
+      if (urlIndex >= 0 && urlIndex < urlStatuses.length) {
+        const current = urlStatuses[urlIndex];
+        urlStatuses[urlIndex] = {
+          ...current,
+          ...(typeof update === "function" ? update(current) : update),
+        };
+        
+        await storage.updatePdfJob(jobId, { urlStatuses });
+        publishUrlStatus(jobId, urlIndex, urlStatuses[urlIndex]);
+      }
     }
-  }
+  });
 }
@@ -0,0 +1,174 @@
+import fs from "fs";
+import path from "path";
+import {
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNull,
+  PDFRef,
+  StandardFonts,
+  rgb,
+  type PDFFont,
+} from "pdf-lib";
+import type { MergedFile, MergePdfOptions, PdfJob } from "@shared/schema";
+import { listJobFiles, type JobFile } from "./job-files";
+
+interface Bookmark {
+  title: string;
+  pageRef: PDFRef;
+}
+
+// Concatenate a job's PDFs in submission order into one file in the job's output directory,
+// with a bookmark per source URL and an optional cover page listing the sources. The job's
+// previous merged file is deleted, since the job record only keeps track of the new one.
+export async function mergeJobPdfs(job: PdfJob, options: MergePdfOptions): Promise<MergedFile> {
+  const files = listJobFiles(job).filter(file => file.format === "pdf" && fs.existsSync(file.filePath));
+  if (files.length === 0) {
+    throw new Error("Job has no PDFs to merge");
+  }
+
+  const merged = await PDFDocument.create();
+  merged.setTitle(`PDFSnap job ${job.jobId}`);
+
+  // Source documents are loaded first so the cover page can list their page numbers
+  const sources = await Promise.all(files.map(async file => ({
+    file,
+    document: await PDFDocument.load(await fs.promises.readFile(file.filePath)),
+  })));
+
+  if (options.coverPage) {
+    const firstPage = sources[0].document.getPage(0);
+    await addCoverPage(merged, job, sources.map(source => ({
+      file: source.file,
+      pageCount: source.document.getPageCount(),
+    })), firstPage.getSize());
+  }
+
+  const bookmarks: Bookmark[] = [];
+  for (const { file, document } of sources) {
+    const pages = await merged.copyPages(document, document.getPageIndices());
+    pages.forEach(page => merged.addPage(page));
+    bookmarks.push({ title: file.title || file.url, pageRef: pages[0].ref });
+  }
+
+  addOutline(merged, bookmarks);
+
+  const pdf = await merged.save();
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const filename = `merged_${job.jobId.slice(0, 8)}_${timestamp}.pdf`;
+  const filePath = path.join(job.outputPath, filename);
+  await fs.promises.writeFile(filePath, pdf);
+
+  console.log(`Merged ${files.length} PDFs of job ${job.jobId} into ${filePath}`);
+
+  const previous = job.mergedFile as MergedFile | null;
+  if (previous && previous.filePath !== filePath) {
+    await fs.promises.rm(previous.filePath, { force: true }).catch(error => {
+      console.error(`Could not delete previous merged file ${previous.filePath}:`, error);
+    });
+  }
+
+  return {
+    filename,
+    filePath,
+    fileSize: pdf.length,
+    pageCount: merged.getPageCount(),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+// pdf-lib has no outline API, so the /Outlines tree is built from raw objects
+function addOutline(document: PDFDocument, bookmarks: Bookmark[]) {
+  const { context } = document;
+  const outlineRef = context.nextRef();
+  const itemRefs = bookmarks.map(() => context.nextRef());
+
+  bookmarks.forEach((bookmark, index) => {
+    const item = context.obj({
+      Title: PDFHexString.fromText(bookmark.title),
+      Parent: outlineRef,
+      Dest: context.obj([bookmark.pageRef, PDFName.of("XYZ"), PDFNull, PDFNull, PDFNull]),
+    });
+    if (index > 0) {
+      item.set(PDFName.of("Prev"), itemRefs[index - 1]);
+    }
+    if (index < bookmarks.length - 1) {
+      item.set(PDFName.of("Next"), itemRefs[index + 1]);
+    }
+    context.assign(itemRefs[index], item);
+  });
+
+  context.assign(outlineRef, context.obj({
+    Type: "Outlines",
+    First: itemRefs[0],
+    Last: itemRefs[itemRefs.length - 1],
+    Count: bookmarks.length,
+  }));
+
+  document.catalog.set(PDFName.of("Outlines"), outlineRef);
+  document.catalog.set(PDFName.of("PageMode"), PDFName.of("UseOutlines"));
+}
+
+// One or more pages listing each source with the page it starts on in the merged file
+async function addCoverPage(
+  document: PDFDocument,
+  job: PdfJob,
+  sources: Array<{ file: JobFile; pageCount: number }>,
+  size: { width: number; height: number }
+) {
+  const font = await document.embedFont(StandardFonts.Helvetica);
+  const boldFont = await document.embedFont(StandardFonts.HelveticaBold);
+  const margin = 50;
+  const lineHeight = 14;
+  const maxWidth = size.width - margin * 2 - 40;
+
+  // Lay out the entries first, since the cover's own length shifts every start page
+  const entriesPerPage = Math.max(1, Math.floor((size.height - margin * 2 - 60) / (lineHeight * 2.5)));
+  const coverPages = Math.ceil(sources.length / entriesPerPage);
+
+  let startPage = coverPages + 1;
+  const entries = sources.map(source => {
+    const entry = { ...source, startPage };
+    startPage += source.pageCount;
+    return entry;
+  });
+
+  for (let pageIndex = 0; pageIndex < coverPages; pageIndex++) {
+    const page = document.addPage([size.width, size.height]);
+    let y = size.height - margin;
+
+    if (pageIndex === 0) {
+      page.drawText("Sources", { x: margin, y: y - 18, size: 18, font: boldFont });
+      page.drawText(fitText(`Job ${job.jobId} · created ${job.createdAt}`, font, 9, maxWidth), {
+        x: margin, y: y - 36, size: 9, font, color: rgb(0.4, 0.4, 0.4),
+      });
+    }
+    y -= 60;
+
+    for (const entry of entries.slice(pageIndex * entriesPerPage, (pageIndex + 1) * entriesPerPage)) {
+      page.drawText(fitText(entry.file.title || entry.file.url, boldFont, 10, maxWidth), {
+        x: margin, y, size: 10, font: boldFont,
+      });
+      page.drawText(String(entry.startPage), {
+        x: size.width - margin - font.widthOfTextAtSize(String(entry.startPage), 10),
+        y, size: 10, font,
+      });
+      page.drawText(fitText(entry.file.url, font, 8, maxWidth), {
+        x: margin, y: y - lineHeight, size: 8, font, color: rgb(0.2, 0.3, 0.7),
+      });
+      y -= lineHeight * 2.5;
+    }
+  }
+}
+
+// Standard fonts only cover WinAnsi, so other characters are replaced, and long text is cut to fit
+function fitText(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  let fitted = text.replace(/[^\x20-\x7E\xA0-\xFF]/g, "?");
+  if (font.widthOfTextAtSize(fitted, size) <= maxWidth) {
+    return fitted;
+  }
+  while (fitted.length > 0 && font.widthOfTextAtSize(`${fitted}...`, size) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}...`;
+}
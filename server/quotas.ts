@@ -0,0 +1,132 @@
+import fs from "fs";
+import type { QuotaUsage } from "@shared/schema";
+import { storage } from "./storage";
+import { config } from "./config";
+import { listOwnedFilePaths } from "./job-files";
+import { withJobLock } from "./job-lock";
+
+const HOUR_MS = 60 * 60 * 1000;
+// No way to know when a running job will finish, so clients are asked to check back after this
+const RUNNING_JOBS_RETRY_AFTER_SECONDS = 30;
+// Measuring stored files stats every one of them, so the total is reused for this long
+const STORED_BYTES_TTL_MS = 60 * 1000;
+
+const storedBytesCache = new Map<number, { bytes: Promise<number>; expiresAt: number }>();
+
+// A submission the user's limits don't allow. Rate limits answer 429 and say when to try
+// again; the URL and storage limits don't lift by waiting, so they answer 400 and 403.
+export class QuotaExceededError extends Error {
+  constructor(message: string, public status: 400 | 403 | 429, public retryAfterSeconds?: number) {
+    super(message);
+    this.name = "QuotaExceededError";
+  }
+}
+
+// Bytes of the files the user's jobs produced that are still on disk, at most STORED_BYTES_TTL_MS old
+function storedBytes(ownerId: number): Promise<number> {
+  const cached = storedBytesCache.get(ownerId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.bytes;
+  }
+
+  const bytes = measureStoredBytes(ownerId);
+  storedBytesCache.set(ownerId, { bytes, expiresAt: Date.now() + STORED_BYTES_TTL_MS });
+  // Measure again on the next request rather than keeping the failure
+  bytes.catch(() => {
+    if (storedBytesCache.get(ownerId)?.bytes === bytes) {
+      storedBytesCache.delete(ownerId);
+    }
+  });
+  return bytes;
+}
+
+// Forget the user's stored bytes so the next check measures them again, e.g. after they delete files
+export function invalidateStoredBytes(ownerId: number): void {
+  storedBytesCache.delete(ownerId);
+}
+
+async function measureStoredBytes(ownerId: number): Promise<number> {
+  // Overwritten files are shared between jobs and only counted once
+  const filePaths = Array.from(await listOwnedFilePaths(ownerId));
+  const sizes = await Promise.all(filePaths.map(async filePath => {
+    const stats = await fs.promises.stat(filePath).catch(() => null);
+    return stats?.isFile() ? stats.size : 0;
+  }));
+
+  return sizes.reduce((sum, size) => sum + size, 0);
+}
+
+const STORAGE_LIMIT_MESSAGE = "Your stored files have reached their size limit; delete some to make room";
+
+// Reject with QuotaExceededError when the user's stored files are at their size limit,
+// for work that adds files without starting a job, like merging
+export async function assertStorageAvailable(ownerId: number): Promise<void> {
+  if (await storedBytes(ownerId) >= config.quotas.maxStoredBytes) {
+    throw new QuotaExceededError(STORAGE_LIMIT_MESSAGE, 403);
+  }
+}
+
+// The user's quota usage; also returns when the oldest job counting towards the hourly limit ages out
+async function measureUsage(ownerId: number): Promise<{ usage: QuotaUsage; hourlyWindowFreesAt?: number }> {
+  const { maxUrlsPerJob, maxConcurrentJobs, maxJobsPerHour, maxStoredBytes } = config.quotas;
+  const hourAgo = new Date(Date.now() - HOUR_MS).toISOString();
+
+  const [running, recent, bytes] = await Promise.all([
+    storage.listPdfJobs({ ownerId, completed: false, limit: 0, offset: 0 }),
+    // Newest first: once the job at the limit's position ages out, the user is under the limit again
+    storage.listPdfJobs({ ownerId, createdAfter: hourAgo, limit: maxJobsPerHour, offset: 0 }),
+    storedBytes(ownerId),
+  ]);
+
+  const limitingJob = recent.jobs[maxJobsPerHour - 1];
+  return {
+    usage: {
+      maxUrlsPerJob,
+      runningJobs: running.total,
+      maxConcurrentJobs,
+      jobsThisHour: recent.total,
+      maxJobsPerHour,
+      storedBytes: bytes,
+      maxStoredBytes,
+    },
+    hourlyWindowFreesAt: limitingJob ? new Date(limitingJob.createdAt).getTime() + HOUR_MS : undefined,
+  };
+}
+
+export async function getQuotaUsage(ownerId: number): Promise<QuotaUsage> {
+  return (await measureUsage(ownerId)).usage;
+}
+
+// Check the user's limits and, if they allow a job of urlCount URLs, start it. Submissions by
+// the same user are checked one at a time so parallel requests can't all slip under a limit.
+export function withJobQuota<T>(ownerId: number, urlCount: number, start: () => Promise<T>): Promise<T> {
+  return withJobLock(`quota:user:${ownerId}`, async () => {
+    const { usage, hourlyWindowFreesAt } = await measureUsage(ownerId);
+
+    if (urlCount > usage.maxUrlsPerJob) {
+      throw new QuotaExceededError(
+        `A job may have at most ${usage.maxUrlsPerJob} URLs, got ${urlCount}`,
+        400
+      );
+    }
+    if (usage.runningJobs >= usage.maxConcurrentJobs) {
+      throw new QuotaExceededError(
+        `You already have the most running jobs allowed at once (${usage.maxConcurrentJobs})`,
+        429,
+        RUNNING_JOBS_RETRY_AFTER_SECONDS
+      );
+    }
+    if (usage.jobsThisHour >= usage.maxJobsPerHour) {
+      throw new QuotaExceededError(
+        `You have started the most jobs allowed in an hour (${usage.maxJobsPerHour})`,
+        429,
+        Math.max(1, Math.ceil(((hourlyWindowFreesAt ?? Date.now()) - Date.now()) / 1000))
+      );
+    }
+    if (usage.storedBytes >= usage.maxStoredBytes) {
+      throw new QuotaExceededError(STORAGE_LIMIT_MESSAGE, 403);
+    }
+
+    return start();
+  });
+}
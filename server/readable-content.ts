@@ -0,0 +1,112 @@
+import fs from "fs";
+import { createRequire } from "module";
+import type { Page } from 'playwright-chromium';
+import type { Readability } from "@mozilla/readability";
+import type TurndownService from "turndown";
+import { inPageScript } from "./page-snapshot";
+
+const require = createRequire(import.meta.url);
+
+export interface ReadableContent {
+  title: string;
+  byline: string | null;
+  canonicalUrl: string;
+  markdown: string;
+  text: string;
+}
+
+// Both formats of a page come from one extraction
+const extractions = new WeakMap<Page, Promise<ReadableContent>>();
+
+let libraryBindings: Record<string, string> | undefined;
+
+// Main content of the page as Markdown, with the page details in front-matter
+export async function captureMarkdown(page: Page, url: string): Promise<Buffer> {
+  const content = await extractReadableContent(page);
+  return Buffer.from(frontMatter(content, url) + content.markdown + "\n", "utf8");
+}
+
+// Main content of the page as plain text, with the page details in front-matter
+export async function captureText(page: Page, url: string): Promise<Buffer> {
+  const content = await extractReadableContent(page);
+  return Buffer.from(frontMatter(content, url) + content.text + "\n", "utf8");
+}
+
+function extractReadableContent(page: Page): Promise<ReadableContent> {
+  let extraction = extractions.get(page);
+  if (!extraction) {
+    extraction = page.evaluate(inPageScript(extractArticle, loadLibraries()));
+    extractions.set(page, extraction);
+  }
+  return extraction;
+}
+
+// The libraries' browser builds run inside the page, each in its own CommonJS-style scope
+function loadLibraries(): Record<string, string> {
+  if (!libraryBindings) {
+    const asModule = (file: string) => {
+      const source = fs.readFileSync(require.resolve(file), "utf8");
+      return `(() => { const module = { exports: {} }; const exports = module.exports;\n${source}\nreturn module.exports; })()`;
+    };
+    libraryBindings = {
+      Readability: asModule("@mozilla/readability/Readability.js"),
+      TurndownService: asModule("turndown/lib/turndown.browser.umd.js"),
+    };
+  }
+  return libraryBindings;
+}
+
+// Runs in the page: pick out the main content the way reader views do, falling back to the whole body
+function extractArticle(
+  ReadabilityClass: typeof Readability,
+  Turndown: typeof TurndownService
+): ReadableContent {
+  const canonical = document.querySelector<HTMLLinkElement>('link[rel="canonical"]');
+
+  // Readability rewrites the document it is given, so it works on a copy
+  const article = new ReadabilityClass<Node>(document.cloneNode(true) as Document, {
+    serializer: node => node,
+  }).parse();
+
+  const content = document.importNode(article?.content ?? document.body, true) as HTMLElement;
+  content.querySelectorAll("script, style, noscript, template").forEach(element => element.remove());
+
+  const markdown = new Turndown({
+    headingStyle: "atx",
+    codeBlockStyle: "fenced",
+    bulletListMarker: "-",
+  }).turndown(content);
+
+  // innerText follows the rendered layout, so the content is laid out offscreen for a moment
+  const container = document.createElement("div");
+  container.style.cssText = "position: absolute; left: -100000px; top: 0; width: 800px;";
+  container.appendChild(content);
+  document.body.appendChild(container);
+  const text = content.innerText;
+  container.remove();
+
+  return {
+    title: article?.title || document.title,
+    byline: article?.byline || null,
+    canonicalUrl: canonical?.href || location.href,
+    markdown: markdown.trim(),
+    text: text.replace(/\n{3,}/g, "\n\n").trim(),
+  };
+}
+
+// YAML front-matter; JSON strings are valid YAML scalars, so values need no further escaping
+function frontMatter(content: ReadableContent, url: string): string {
+  const fields: Record<string, string | null> = {
+    title: content.title,
+    byline: content.byline,
+    canonical_url: content.canonicalUrl,
+    source_url: url,
+    captured_at: new Date().toISOString(),
+  };
+
+  const lines = Object.entries(fields)
+    .filter(([, value]) => value)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+
+  return `---\n${lines.join("\n")}\n---\n\n`;
+}
@@ -1,42 +1,220 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { generatePdfSchema } from "@shared/schema";
+import {
+  generatePdfSchema,
+  renderPdfSchema,
+  mergePdfSchema,
+  retryJobSchema,
+  listJobsQuerySchema,
+  createApiKeySchema,
+  type PdfJobSummary,
+  type UrlStatus,
+} from "@shared/schema";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
-import { generatePdfs, getJobStatus, cancelJob } from "./pdf-generator";
+import {
+  generatePdfs,
+  getJobStatus,
+  cancelJob,
+  retryFailedUrls,
+  mergeJob,
+  renderSingleUrl,
+  RenderBusyError,
+  RenderTimeoutError,
+  RenderCancelledError,
+} from "./pdf-generator";
+import { config } from "./config";
+import { subscribeToJob, summarizeJob, type JobEvent } from "./job-events";
+import { redactWebhookSecret } from "./webhooks";
+import { streamJobArchive } from "./job-archive";
+import { listJobFiles, findJobFile, listOwnedFilePaths } from "./job-files";
+import { getFileRoots, resolveRootedPath, PathOutsideRootError } from "./file-roots";
+import { assertUrlAllowed, checkUrl, findRefusedUrls, UrlPolicyError } from "./url-policy";
+import { setupAuth, requireAuth } from "./auth";
+import { generateApiKey, toApiKeySummary, requireApiKeyScope, requireSession } from "./api-keys";
+import {
+  getQuotaUsage,
+  withJobQuota,
+  assertStorageAvailable,
+  invalidateStoredBytes,
+  QuotaExceededError,
+} from "./quotas";
 import { randomUUID } from "crypto";
 import fs from "fs";
 import path from "path";
 
+// Map extensions to content types
+const contentTypeMap: {[key: string]: string} = {
+  '.pdf': 'application/pdf',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.mhtml': 'multipart/related',
+  '.txt': 'text/plain; charset=utf-8',
+  '.md': 'text/plain; charset=utf-8',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.css': 'text/css',
+  '.js': 'text/javascript',
+  '.json': 'application/json',
+};
+
+// Determine content type based on file extension
+function contentTypeFor(filePath: string): string {
+  return contentTypeMap[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream';
+}
+
+// Files the file explorer can show inline
+const previewExtensions = ['.pdf', '.jpg', '.jpeg', '.png', '.gif', '.webp', '.html', '.htm', '.txt', '.md'];
+
+// Headers for showing a file in the browser. Captured HTML comes from other sites,
+// so it is sandboxed to keep it from running script on this origin.
+function setInlineHeaders(res: Response, filePath: string) {
+  const contentType = contentTypeFor(filePath);
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Disposition', `inline; filename="${path.basename(filePath)}"`);
+  if (contentType === 'text/html') {
+    res.setHeader('Content-Security-Policy', 'sandbox');
+  }
+}
+
+function sendQuotaError(res: Response, error: QuotaExceededError) {
+  if (error.retryAfterSeconds !== undefined) {
+    res.setHeader("Retry-After", String(error.retryAfterSeconds));
+  }
+  res.status(error.status).json({ message: error.message });
+}
+
+// Jobs are only visible to the user who created them; to anyone else they don't exist
+async function getOwnedJob(req: Request, jobId: string) {
+  const job = await getJobStatus(jobId);
+  return job && job.ownerId === req.user!.id ? job : undefined;
+}
+
+// Files are only visible to the user whose jobs produced them; to anyone else they don't exist
+async function isOwnedFile(req: Request, filePath: string) {
+  return (await listOwnedFilePaths(req.user!.id)).has(filePath);
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Accounts and sessions; everything under /api/pdf and /api/files needs a login or an API key
+  setupAuth(app);
+  app.use(["/api/pdf", "/api/files"], requireAuth, requireApiKeyScope);
+  app.use("/api/keys", requireAuth, requireSession);
+  
+  // The user's limits and how much of each is in use
+  app.get("/api/quota", requireAuth, requireApiKeyScope, async (req, res) => {
+    try {
+      res.json(await getQuotaUsage(req.user!.id));
+    } catch (error) {
+      console.error("Error measuring quota usage:", error);
+      res.status(500).json({ message: "Failed to get quota usage" });
+    }
+  });
+  
+  // The user's API keys, without their secrets
+  app.get("/api/keys", async (req, res) => {
+    try {
+      const keys = await storage.listApiKeys(req.user!.id);
+      res.json(keys.map(toApiKeySummary));
+    } catch (error) {
+      console.error("Error listing API keys:", error);
+      res.status(500).json({ message: "Failed to list API keys" });
+    }
+  });
+  
+  // Create an API key; the secret is only ever returned here
+  app.post("/api/keys", async (req, res) => {
+    try {
+      const { name, scopes, expiresAt } = createApiKeySchema.parse(req.body);
+      const { secret, prefix, keyHash } = generateApiKey();
+      
+      const key = await storage.createApiKey({
+        userId: req.user!.id,
+        name,
+        prefix,
+        keyHash,
+        scopes,
+        expiresAt: expiresAt ?? null,
+      });
+      
+      res.status(201).json({ ...toApiKeySummary(key), secret });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json({ message: fromZodError(error).message });
+      } else {
+        console.error("Error creating API key:", error);
+        res.status(500).json({ message: "Failed to create API key" });
+      }
+    }
+  });
+  
+  // Revoke an API key
+  app.delete("/api/keys/:id", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const deleted = Number.isInteger(id) && await storage.deleteApiKey(req.user!.id, id);
+      
+      if (!deleted) {
+        return res.status(404).json({ message: "API key not found" });
+      }
+      
+      res.json({ message: "API key revoked" });
+    } catch (error) {
+      console.error("Error revoking API key:", error);
+      res.status(500).json({ message: "Failed to revoke API key" });
+    }
+  });
+  
   // PDF generation routes
   app.post("/api/pdf/generate", async (req, res) => {
     try {
       // Validate the request body
       const validatedData = generatePdfSchema.parse(req.body);
+      const { urls, ...options } = validatedData;
+      const { path: outputPath } = await resolveRootedPath(validatedData.outputPath);
+      
+      // Every URL must pass the URL policy; refused ones are reported individually
+      const refused = await findRefusedUrls(urls);
+      if (refused.length > 0) {
+        return res.status(400).json({
+          message: `URLs not allowed: ${refused.map(({ url, reason }) => `${url} (${reason})`).join("; ")}`,
+          errors: refused,
+        });
+      }
+      
+      // The webhook is called from the server, so it is held to the same policy
+      const webhookRefusal = options.webhook ? await checkUrl(options.webhook.url) : null;
+      if (webhookRefusal) {
+        return res.status(400).json({ message: `Webhook URL not allowed: ${webhookRefusal}` });
+      }
       
       // Create a unique job ID
       const jobId = randomUUID();
       
       // Initialize URL statuses
-      const urlStatuses = validatedData.urls.map(url => ({
+      const urlStatuses = urls.map(url => ({
         url,
         status: "pending",
       }));
       
-      // Store the job in memory
-      await storage.createPdfJob({
+      // Store the job, if the user's quota allows it
+      await withJobQuota(req.user!.id, urls.length, () => storage.createPdfJob({
         jobId,
-        urls: validatedData.urls,
-        outputPath: validatedData.outputPath,
+        ownerId: req.user!.id,
+        urls,
+        outputPath,
         status: "pending",
         completed: false,
         urlStatuses,
-      });
+        options,
+      }));
       
       // Start the PDF generation process in the background
-      generatePdfs(jobId, validatedData.urls, validatedData.outputPath);
+      generatePdfs(jobId, urls, outputPath, options);
       
       // Return the job ID to the client
       res.json(jobId);
@@ -44,6 +222,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof ZodError) {
         const validationError = fromZodError(error);
         res.status(400).json({ message: validationError.message });
+      } else if (error instanceof PathOutsideRootError) {
+        res.status(403).json({ message: error.message });
+      } else if (error instanceof QuotaExceededError) {
+        sendQuotaError(res, error);
       } else {
         console.error("Error generating PDFs:", error);
         res.status(500).json({ message: "Failed to start PDF generation" });
@@ -51,22 +233,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Locations the file explorer may browse
+  app.get("/api/files/roots", async (req, res) => {
+    try {
+      res.json({ roots: await getFileRoots() });
+    } catch (error) {
+      console.error("Error listing file roots:", error);
+      res.status(500).json({ message: "Failed to list file roots" });
+    }
+  });
+  
   // List all files in a directory (project files explorer)
   app.get("/api/files/list", async (req, res) => {
     try {
-      const directory = req.query.directory as string || "./generated-pdfs";
+      // Without a directory, the first root is listed; roots themselves always exist
+      const requested = req.query.directory as string || (await getFileRoots())[0].path;
+      const { root, path: directory } = await resolveRootedPath(requested);
       
-      // Make sure the directory exists
-      try {
-        await fs.promises.mkdir(directory, { recursive: true });
-      } catch (error) {
-        console.error(`Failed to ensure directory exists: ${(error as Error).message}`);
+      if (!fs.existsSync(directory)) {
+        return res.status(404).json({ message: "Directory not found" });
       }
       
       try {
         const files = await fs.promises.readdir(directory, { withFileTypes: true });
         
-        const filesList = files.map(file => {
+        // Only the user's own files are listed, along with the folders that lead to them
+        const ownedPaths = Array.from(await listOwnedFilePaths(req.user!.id));
+        const isListed = (fullPath: string, isDirectory: boolean) => isDirectory
+          ? ownedPaths.some(ownedPath => ownedPath.startsWith(fullPath + path.sep))
+          : ownedPaths.includes(fullPath);
+        
+        const filesList = files.filter(file => isListed(path.join(directory, file.name), file.isDirectory())).map(file => {
           const isDirectory = file.isDirectory();
           const fullPath = path.join(directory, file.name);
           
@@ -89,47 +286,311 @@ export async function registerRoutes(app: Express): Promise<Server> {
             modifiedTime,
             // Add URLs for file operations
             downloadUrl: isDirectory ? null : `/api/files/download?path=${encodeURIComponent(fullPath)}`,
-            viewUrl: (isDirectory || !file.name.endsWith('.pdf')) ? null : `/api/files/view?path=${encodeURIComponent(fullPath)}`
+            viewUrl: (isDirectory || !previewExtensions.includes(path.extname(file.name).toLowerCase()))
+              ? null
+              : `/api/files/view?path=${encodeURIComponent(fullPath)}`
           };
         });
         
         res.json({
           directory,
+          root: root.name,
           files: filesList,
-          parentDirectory: directory === './' ? null : path.dirname(directory)
+          // Browsing stops at the root
+          parentDirectory: directory === root.path ? null : path.dirname(directory)
         });
       } catch (error) {
         console.error("Error reading directory:", error);
         return res.status(500).json({ message: `Could not read directory: ${(error as Error).message}` });
       }
     } catch (error) {
+      if (error instanceof PathOutsideRootError) {
+        return res.status(403).json({ message: error.message });
+      }
       console.error("Error listing files:", error);
       res.status(500).json({ message: "Failed to list files" });
     }
   });
   
+  // List past jobs, newest first
+  app.get("/api/pdf/jobs", async (req, res) => {
+    try {
+      const query = listJobsQuerySchema.parse(req.query);
+      
+      // The "to" day is inclusive, so stop before midnight of the next day
+      let createdBefore: string | undefined;
+      if (query.to) {
+        const dayAfter = new Date(`${query.to}T00:00:00.000Z`);
+        dayAfter.setUTCDate(dayAfter.getUTCDate() + 1);
+        createdBefore = dayAfter.toISOString();
+      }
+      
+      const { jobs, total } = await storage.listPdfJobs({
+        ownerId: req.user!.id,
+        status: query.status,
+        createdAfter: query.from ? `${query.from}T00:00:00.000Z` : undefined,
+        createdBefore,
+        search: query.q || undefined,
+        limit: query.pageSize,
+        offset: (query.page - 1) * query.pageSize,
+      });
+      
+      const summaries: PdfJobSummary[] = jobs.map(job => {
+        const urls = job.urls as string[];
+        return {
+          jobId: job.jobId,
+          parentJobId: job.parentJobId,
+          status: job.status,
+          completed: job.completed,
+          createdAt: job.createdAt,
+          outputPath: job.outputPath,
+          urlCount: urls.length,
+          successCount: job.successCount,
+          failCount: job.failCount,
+          urls: urls.slice(0, 3),
+        };
+      });
+      
+      res.json({ jobs: summaries, total, page: query.page, pageSize: query.pageSize });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        console.error("Error listing jobs:", error);
+        res.status(500).json({ message: "Failed to list jobs" });
+      }
+    }
+  });
+  
+  // Render one URL and send the PDF back in the response
+  app.post("/api/pdf/render", async (req, res) => {
+    // Stop rendering if the client goes away before the PDF is sent
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) {
+        controller.abort();
+      }
+    });
+    
+    try {
+      const { url, pdfOptions, outputPath, timeoutMs } = renderPdfSchema.parse(req.body);
+      await assertUrlAllowed(url);
+      const savePath = outputPath && (await resolveRootedPath(outputPath)).path;
+      
+      // A saved copy is kept as a one-URL job, so it counts towards the user's quota
+      // and belongs to them like any other job's files
+      const jobId = savePath ? randomUUID() : undefined;
+      if (savePath && jobId) {
+        await withJobQuota(req.user!.id, 1, () => storage.createPdfJob({
+          jobId,
+          ownerId: req.user!.id,
+          urls: [url],
+          outputPath: savePath,
+          status: "processing",
+          completed: false,
+          urlStatuses: [{ url, status: "processing", startedAt: new Date().toISOString() }],
+          options: { pdfOptions },
+        }));
+      }
+      
+      const { pdf, filename, savedPath } = await renderSingleUrl(url, {
+        pdfOptions,
+        outputPath: savePath,
+        jobId,
+        timeoutMs: Math.min(timeoutMs ?? config.render.timeoutMs, config.render.timeoutMs),
+        signal: controller.signal,
+      });
+      
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Length", pdf.length);
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      if (savedPath) {
+        res.setHeader("X-Saved-Path", savedPath);
+      }
+      res.end(pdf);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json({ message: fromZodError(error).message });
+      } else if (error instanceof PathOutsideRootError) {
+        res.status(403).json({ message: error.message });
+      } else if (error instanceof UrlPolicyError) {
+        res.status(400).json({ message: error.message });
+      } else if (error instanceof QuotaExceededError) {
+        sendQuotaError(res, error);
+      } else if (error instanceof RenderBusyError) {
+        res.setHeader("Retry-After", "5");
+        res.status(503).json({ message: error.message });
+      } else if (error instanceof RenderTimeoutError) {
+        res.status(504).json({ message: error.message });
+      } else if (error instanceof RenderCancelledError) {
+        // The client has gone, so there is no one to answer
+        console.log(`Render cancelled by client disconnect: ${error.message}`);
+      } else {
+        console.error("Error rendering PDF:", error);
+        res.status(500).json({ message: `Failed to render PDF: ${(error as Error).message}` });
+      }
+    }
+  });
+  
+  // Combine a finished job's PDFs into one document
+  app.post("/api/pdf/merge/:jobId", async (req, res) => {
+    try {
+      const { jobId } = req.params;
+      const options = mergePdfSchema.parse(req.body ?? {});
+      const job = await getOwnedJob(req, jobId);
+      
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      
+      if (!job.completed) {
+        return res.status(409).json({ message: "Job is still running" });
+      }
+      
+      if (!listJobFiles(job).some(file => file.format === "pdf" && fs.existsSync(file.filePath))) {
+        return res.status(400).json({ message: "Job has no PDFs to merge" });
+      }
+      
+      await assertStorageAvailable(req.user!.id);
+      const mergedFile = await mergeJob(jobId, options);
+      if (!mergedFile) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      
+      res.json({
+        ...mergedFile,
+        viewUrl: `/api/pdf/view/${encodeURIComponent(mergedFile.filename)}?jobId=${jobId}`,
+        downloadUrl: `/api/pdf/download/${encodeURIComponent(mergedFile.filename)}?jobId=${jobId}`
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json({ message: fromZodError(error).message });
+      } else if (error instanceof QuotaExceededError) {
+        sendQuotaError(res, error);
+      } else {
+        console.error("Error merging PDFs:", error);
+        res.status(500).json({ message: `Failed to merge PDFs: ${(error as Error).message}` });
+      }
+    }
+  });
+  
+  // Download every file a job produced as a ZIP with a manifest
+  app.get("/api/pdf/archive/:jobId", async (req, res) => {
+    try {
+      const job = await getOwnedJob(req, req.params.jobId);
+      
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      
+      await streamJobArchive(job, res);
+    } catch (error) {
+      console.error("Error archiving job:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to create job archive" });
+      }
+    }
+  });
+  
   // Get job status
   app.get("/api/pdf/status/:jobId", async (req, res) => {
     try {
       const { jobId } = req.params;
-      const jobStatus = await getJobStatus(jobId);
+      const jobStatus = await getOwnedJob(req, jobId);
       
       if (!jobStatus) {
         return res.status(404).json({ message: "Job not found" });
       }
       
-      res.json(jobStatus);
+      res.json(redactWebhookSecret(jobStatus));
     } catch (error) {
       console.error("Error getting job status:", error);
       res.status(500).json({ message: "Failed to get job status" });
     }
   });
   
+  // Live job progress as Server-Sent Events: a snapshot, then each change until the job finishes
+  app.get("/api/pdf/events/:jobId", async (req, res) => {
+    const { jobId } = req.params;
+    let closed = false;
+    
+    // Subscribe before reading the snapshot so no change falls in between;
+    // changes that arrive meanwhile are held back until the snapshot is sent
+    let held: JobEvent[] | null = [];
+    const unsubscribe = subscribeToJob(jobId, (event) => {
+      if (held) {
+        held.push(event);
+      } else {
+        writeEvent(event);
+      }
+    });
+    
+    // Comment lines keep proxies from closing an idle stream
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), 15000);
+    
+    const stop = () => {
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe();
+    };
+    req.on("close", stop);
+    
+    const writeEvent = (event: JobEvent) => {
+      if (closed) {
+        return;
+      }
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+      if (event.type === "done") {
+        stop();
+        res.end();
+      }
+    };
+    
+    try {
+      const job = await getOwnedJob(req, jobId);
+      
+      if (!job) {
+        stop();
+        return res.status(404).json({ message: "Job not found" });
+      }
+      
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive",
+        "X-Accel-Buffering": "no",
+      });
+      res.write(`event: snapshot\ndata: ${JSON.stringify({
+        ...summarizeJob(job),
+        urlStatuses: job.urlStatuses,
+      })}\n\n`);
+      
+      const pending = held;
+      held = null;
+      
+      if (job.completed) {
+        writeEvent({ type: "done", data: summarizeJob(job) });
+      } else {
+        pending.forEach(writeEvent);
+      }
+    } catch (error) {
+      console.error("Error streaming job events:", error);
+      stop();
+      if (res.headersSent) {
+        res.end();
+      } else {
+        res.status(500).json({ message: "Failed to stream job events" });
+      }
+    }
+  });
+  
   // Cancel job
   app.post("/api/pdf/cancel", async (req, res) => {
     try {
       const { jobId } = req.body;
-      const success = await cancelJob(jobId);
+      const job = typeof jobId === "string" ? await getOwnedJob(req, jobId) : undefined;
+      const success = job ? await cancelJob(jobId) : false;
       
       if (!success) {
         return res.status(404).json({ message: "Job not found or already completed" });
@@ -142,35 +603,79 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // List all PDFs for a job
-  app.get("/api/pdf/list/:jobId", async (req, res) => {
+  // Retry the failed URLs of a job
+  app.post("/api/pdf/retry/:jobId", async (req, res) => {
     try {
       const { jobId } = req.params;
-      const job = await getJobStatus(jobId);
+      const { mode } = retryJobSchema.parse(req.body ?? {});
+      const job = await getOwnedJob(req, jobId);
       
       if (!job) {
         return res.status(404).json({ message: "Job not found" });
       }
       
-      const outputDir = job.outputPath;
+      // A cancelled job still has unrendered URLs, which re-running it in place would pick up
+      if (mode === "same" && job.status === "cancelled") {
+        return res.status(409).json({ message: "Cancelled jobs can only be retried into a new job" });
+      }
       
-      try {
-        const files = await fs.promises.readdir(outputDir);
-        const pdfFiles = files.filter(file => file.endsWith('.pdf'));
-        
-        // Return the list of PDF files with URLs for viewing and downloading
-        res.json({
-          files: pdfFiles.map(file => ({
-            name: file,
-            path: `${outputDir}/${file}`,
-            viewUrl: `/api/pdf/view/${encodeURIComponent(file)}?jobId=${jobId}`,
-            downloadUrl: `/api/pdf/download/${encodeURIComponent(file)}?jobId=${jobId}`
-          }))
-        });
-      } catch (error) {
-        console.error("Error reading output directory:", error);
-        return res.status(500).json({ message: `Could not read output directory: ${(error as Error).message}` });
+      // Jobs created before file roots existed may point anywhere
+      await resolveRootedPath(job.outputPath);
+      
+      const failedUrls = (job.urlStatuses as UrlStatus[]).filter(u => u.status === "failed");
+      // Re-queueing into a job that is still running doesn't start another one
+      const startsJob = mode === "child" || job.completed;
+      const retryJobId = startsJob && failedUrls.length > 0
+        ? await withJobQuota(req.user!.id, failedUrls.length, () => retryFailedUrls(jobId, mode))
+        : await retryFailedUrls(jobId, mode);
+      
+      if (!retryJobId) {
+        return res.status(400).json({ message: "Job has no failed URLs to retry" });
       }
+      
+      res.json({ jobId: retryJobId, retried: failedUrls.length });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else if (error instanceof PathOutsideRootError) {
+        res.status(403).json({ message: error.message });
+      } else if (error instanceof QuotaExceededError) {
+        sendQuotaError(res, error);
+      } else {
+        console.error("Error retrying job:", error);
+        res.status(500).json({ message: "Failed to retry job" });
+      }
+    }
+  });
+
+  // List all PDFs for a job
+  app.get("/api/pdf/list/:jobId", async (req, res) => {
+    try {
+      const { jobId } = req.params;
+      const job = await getOwnedJob(req, jobId);
+      
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      
+      // Only the files recorded on this job, even if others share its directory
+      const files = listJobFiles(job).filter(file => fs.existsSync(file.filePath));
+      
+      // Return the list of PDF files with URLs for viewing and downloading
+      res.json({
+        files: files.map(file => ({
+          name: file.filename,
+          format: file.format,
+          path: file.filePath,
+          url: file.url,
+          size: file.fileSize,
+          pageCount: file.pageCount,
+          capturedAt: file.capturedAt,
+          viewUrl: `/api/pdf/view/${encodeURIComponent(file.filename)}?jobId=${jobId}`,
+          downloadUrl: `/api/pdf/download/${encodeURIComponent(file.filename)}?jobId=${jobId}`
+        }))
+      });
     } catch (error) {
       console.error("Error listing PDFs:", error);
       res.status(500).json({ message: "Failed to list PDFs" });
@@ -187,22 +692,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Job ID is required" });
       }
       
-      const job = await getJobStatus(jobId);
+      const job = await getOwnedJob(req, jobId);
       
       if (!job) {
         return res.status(404).json({ message: "Job not found" });
       }
       
-      const filePath = path.join(job.outputPath, decodeURIComponent(filename));
+      // Files are looked up on the job record, never by joining paths
+      const file = findJobFile(job, filename);
       
       // Check if file exists
-      if (!fs.existsSync(filePath)) {
+      if (!file || !fs.existsSync(file.filePath)) {
         return res.status(404).json({ message: "PDF file not found" });
       }
+      const filePath = file.filePath;
       
       // Set Content-Type for viewing in browser
-      res.setHeader('Content-Type', 'application/pdf');
-      res.setHeader('Content-Disposition', `inline; filename="${filename}"`);
+      setInlineHeaders(res, filePath);
       
       // Stream the file
       const fileStream = fs.createReadStream(filePath);
@@ -223,22 +729,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Job ID is required" });
       }
       
-      const job = await getJobStatus(jobId);
+      const job = await getOwnedJob(req, jobId);
       
       if (!job) {
         return res.status(404).json({ message: "Job not found" });
       }
       
-      const filePath = path.join(job.outputPath, decodeURIComponent(filename));
+      // Files are looked up on the job record, never by joining paths
+      const file = findJobFile(job, filename);
       
       // Check if file exists
-      if (!fs.existsSync(filePath)) {
+      if (!file || !fs.existsSync(file.filePath)) {
         return res.status(404).json({ message: "PDF file not found" });
       }
+      const filePath = file.filePath;
       
       // Set Content-Type and Content-Disposition for download
-      res.setHeader('Content-Type', 'application/pdf');
-      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.setHeader('Content-Type', contentTypeFor(filePath));
+      res.setHeader('Content-Disposition', `attachment; filename="${path.basename(filePath)}"`);
       
       // Stream the file
       const fileStream = fs.createReadStream(filePath);
@@ -249,67 +757,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // View any file by path
+  // View one of the user's files by path
   app.get("/api/files/view", async (req, res) => {
     try {
-      const filePath = req.query.path as string;
-      
-      if (!filePath) {
+      if (!req.query.path) {
         return res.status(400).json({ message: "File path is required" });
       }
+      const { path: filePath } = await resolveRootedPath(req.query.path as string);
       
       // Check if file exists
-      if (!fs.existsSync(filePath)) {
+      if (!fs.existsSync(filePath) || !(await isOwnedFile(req, filePath))) {
         return res.status(404).json({ message: "File not found" });
       }
       
-      // Determine content type based on file extension
-      const ext = path.extname(filePath).toLowerCase();
-      let contentType = 'application/octet-stream'; // Default content type
-      
-      // Map extensions to content types
-      const contentTypeMap: {[key: string]: string} = {
-        '.pdf': 'application/pdf',
-        '.jpg': 'image/jpeg',
-        '.jpeg': 'image/jpeg',
-        '.png': 'image/png',
-        '.gif': 'image/gif',
-        '.txt': 'text/plain',
-        '.html': 'text/html',
-        '.htm': 'text/html',
-        '.css': 'text/css',
-        '.js': 'text/javascript',
-        '.json': 'application/json',
-      };
-      
-      if (contentTypeMap[ext]) {
-        contentType = contentTypeMap[ext];
-      }
-      
       // Set appropriate headers
-      res.setHeader('Content-Type', contentType);
-      res.setHeader('Content-Disposition', `inline; filename="${path.basename(filePath)}"`);
+      setInlineHeaders(res, filePath);
       
       // Stream the file
       const fileStream = fs.createReadStream(filePath);
       fileStream.pipe(res);
     } catch (error) {
+      if (error instanceof PathOutsideRootError) {
+        return res.status(403).json({ message: error.message });
+      }
       console.error("Error viewing file:", error);
       res.status(500).json({ message: "Failed to view file" });
     }
   });
   
-  // Download any file by path
+  // Download one of the user's files by path
   app.get("/api/files/download", async (req, res) => {
     try {
-      const filePath = req.query.path as string;
-      
-      if (!filePath) {
+      if (!req.query.path) {
         return res.status(400).json({ message: "File path is required" });
       }
+      const { path: filePath } = await resolveRootedPath(req.query.path as string);
       
       // Check if file exists
-      if (!fs.existsSync(filePath)) {
+      if (!fs.existsSync(filePath) || !(await isOwnedFile(req, filePath))) {
         return res.status(404).json({ message: "File not found" });
       }
       
@@ -321,22 +806,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const fileStream = fs.createReadStream(filePath);
       fileStream.pipe(res);
     } catch (error) {
+      if (error instanceof PathOutsideRootError) {
+        return res.status(403).json({ message: error.message });
+      }
       console.error("Error downloading file:", error);
       res.status(500).json({ message: "Failed to download file" });
     }
   });
   
-  // Delete a file
+  // Delete one of the user's files
   app.delete("/api/files/delete", async (req, res) => {
     try {
-      const filePath = req.query.path as string;
-      
-      if (!filePath) {
+      if (!req.query.path) {
         return res.status(400).json({ message: "File path is required" });
       }
+      const { path: filePath } = await resolveRootedPath(req.query.path as string);
       
       // Check if file exists
-      if (!fs.existsSync(filePath)) {
+      if (!fs.existsSync(filePath) || !(await isOwnedFile(req, filePath))) {
         return res.status(404).json({ message: "File not found" });
       }
       
@@ -348,9 +835,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Delete the file
       await fs.promises.unlink(filePath);
+      invalidateStoredBytes(req.user!.id);
       
       res.json({ message: "File deleted successfully" });
     } catch (error) {
+      if (error instanceof PathOutsideRootError) {
+        return res.status(403).json({ message: error.message });
+      }
       console.error("Error deleting file:", error);
       res.status(500).json({ message: "Failed to delete file" });
     }
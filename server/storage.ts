@@ -1,27 +1,82 @@
-import { users, type User, type InsertUser, type PdfJob, type InsertPdfJob } from "@shared/schema";
+import {
+  users,
+  pdfJobs,
+  apiKeys,
+  type User,
+  type InsertUser,
+  type PdfJob,
+  type InsertPdfJob,
+  type ApiKey,
+  type InsertApiKey,
+} from "@shared/schema";
+import { and, desc, eq, gte, lt, sql, type SQL } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { getDb, getPool, runMigrations, type Database } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+export interface ListPdfJobsOptions {
+  ownerId: number;
+  status?: string;
+  completed?: boolean;
+  // ISO timestamps; createdBefore is exclusive
+  createdAfter?: string;
+  createdBefore?: string;
+  // Case-insensitive match against any of the job's URLs
+  search?: string;
+  limit: number;
+  offset: number;
+}
+
+export interface PdfJobPage {
+  jobs: PdfJob[];
+  total: number;
+}
 
 // Extend the storage interface to include PDF job operations
 export interface IStorage {
+  // Where login sessions are kept
+  sessionStore: session.Store;
+  
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   
+  // API key operations
+  createApiKey(key: InsertApiKey): Promise<ApiKey>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  // Oldest first
+  listApiKeys(userId: number): Promise<ApiKey[]>;
+  deleteApiKey(userId: number, id: number): Promise<boolean>;
+  touchApiKey(id: number, lastUsedAt: string): Promise<void>;
+  
   // PDF job operations
   createPdfJob(job: InsertPdfJob): Promise<PdfJob>;
   getPdfJob(jobId: string): Promise<PdfJob | undefined>;
   updatePdfJob(jobId: string, updates: Partial<PdfJob>): Promise<PdfJob | undefined>;
   deletePdfJob(jobId: string): Promise<boolean>;
+  getUnfinishedPdfJobs(): Promise<PdfJob[]>;
+  // Newest first
+  listPdfJobs(options: ListPdfJobsOptions): Promise<PdfJobPage>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private pdfJobs: Map<string, PdfJob>;
+  private apiKeys: Map<number, ApiKey>;
   currentId: number;
+  sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
     this.pdfJobs = new Map();
+    this.apiKeys = new Map();
     this.currentId = 1;
+    // Expired sessions are pruned once a day
+    this.sessionStore = new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
   }
 
   // User operations
@@ -42,12 +97,56 @@ export class MemStorage implements IStorage {
     return user;
   }
 
+  // API key operations
+  async createApiKey(insertKey: InsertApiKey): Promise<ApiKey> {
+    const id = this.currentId++;
+    const key: ApiKey = {
+      ...insertKey,
+      id,
+      expiresAt: insertKey.expiresAt ?? null,
+      lastUsedAt: null,
+      createdAt: new Date().toISOString(),
+    };
+    this.apiKeys.set(id, key);
+    return key;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    return Array.from(this.apiKeys.values()).find((key) => key.keyHash === keyHash);
+  }
+
+  async listApiKeys(userId: number): Promise<ApiKey[]> {
+    return Array.from(this.apiKeys.values()).filter((key) => key.userId === userId);
+  }
+
+  async deleteApiKey(userId: number, id: number): Promise<boolean> {
+    const key = this.apiKeys.get(id);
+    return key?.userId === userId && this.apiKeys.delete(id);
+  }
+
+  async touchApiKey(id: number, lastUsedAt: string): Promise<void> {
+    const key = this.apiKeys.get(id);
+    if (key) {
+      this.apiKeys.set(id, { ...key, lastUsedAt });
+    }
+  }
+
   // PDF job operations
   async createPdfJob(insertJob: InsertPdfJob): Promise<PdfJob> {
     const id = this.currentId++;
     const job: PdfJob = { 
       ...insertJob, 
       id,
+      parentJobId: insertJob.parentJobId ?? null,
+      ownerId: insertJob.ownerId ?? null,
+      status: insertJob.status ?? "pending",
+      error: null,
+      completed: insertJob.completed ?? false,
+      successCount: 0,
+      failCount: 0,
+      options: insertJob.options ?? {},
+      webhookDeliveries: [],
+      mergedFile: null,
       createdAt: new Date().toISOString(),
     };
     
@@ -75,6 +174,182 @@ export class MemStorage implements IStorage {
   async deletePdfJob(jobId: string): Promise<boolean> {
     return this.pdfJobs.delete(jobId);
   }
+
+  async getUnfinishedPdfJobs(): Promise<PdfJob[]> {
+    return Array.from(this.pdfJobs.values()).filter((job) => !job.completed);
+  }
+
+  async listPdfJobs(options: ListPdfJobsOptions): Promise<PdfJobPage> {
+    const search = options.search?.toLowerCase();
+    const matching = Array.from(this.pdfJobs.values())
+      .filter((job) => job.ownerId === options.ownerId)
+      .filter((job) => !options.status || job.status === options.status)
+      .filter((job) => options.completed === undefined || job.completed === options.completed)
+      .filter((job) => !options.createdAfter || job.createdAt >= options.createdAfter)
+      .filter((job) => !options.createdBefore || job.createdAt < options.createdBefore)
+      .filter((job) => !search || (job.urls as string[]).some((url) => url.toLowerCase().includes(search)))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return {
+      jobs: matching.slice(options.offset, options.offset + options.limit),
+      total: matching.length,
+    };
+  }
+}
+
+export class DbStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database) {
+    this.sessionStore = new PostgresSessionStore({ pool: getPool(), createTableIfMissing: true });
+  }
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // API key operations
+  async createApiKey(insertKey: InsertApiKey): Promise<ApiKey> {
+    const [key] = await this.db
+      .insert(apiKeys)
+      .values({ ...insertKey, createdAt: new Date().toISOString() })
+      .returning();
+    return key;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const [key] = await this.db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash));
+    return key;
+  }
+
+  async listApiKeys(userId: number): Promise<ApiKey[]> {
+    return this.db.select().from(apiKeys).where(eq(apiKeys.userId, userId)).orderBy(apiKeys.id);
+  }
+
+  async deleteApiKey(userId: number, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(apiKeys)
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId)))
+      .returning({ id: apiKeys.id });
+    return deleted.length > 0;
+  }
+
+  async touchApiKey(id: number, lastUsedAt: string): Promise<void> {
+    await this.db.update(apiKeys).set({ lastUsedAt }).where(eq(apiKeys.id, id));
+  }
+
+  // PDF job operations
+  async createPdfJob(insertJob: InsertPdfJob): Promise<PdfJob> {
+    const [job] = await this.db
+      .insert(pdfJobs)
+      .values({ ...insertJob, createdAt: new Date().toISOString() })
+      .returning();
+    return job;
+  }
+
+  async getPdfJob(jobId: string): Promise<PdfJob | undefined> {
+    const [job] = await this.db.select().from(pdfJobs).where(eq(pdfJobs.jobId, jobId));
+    return job;
+  }
+
+  async updatePdfJob(jobId: string, updates: Partial<PdfJob>): Promise<PdfJob | undefined> {
+    // The serial id and job id are immutable
+    const { id: _id, jobId: _jobId, ...changes } = updates;
+
+    if (Object.keys(changes).length === 0) {
+      return this.getPdfJob(jobId);
+    }
+
+    const [job] = await this.db
+      .update(pdfJobs)
+      .set(changes)
+      .where(eq(pdfJobs.jobId, jobId))
+      .returning();
+    return job;
+  }
+
+  async deletePdfJob(jobId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(pdfJobs)
+      .where(eq(pdfJobs.jobId, jobId))
+      .returning({ id: pdfJobs.id });
+    return deleted.length > 0;
+  }
+
+  async getUnfinishedPdfJobs(): Promise<PdfJob[]> {
+    return this.db.select().from(pdfJobs).where(eq(pdfJobs.completed, false));
+  }
+
+  async listPdfJobs(options: ListPdfJobsOptions): Promise<PdfJobPage> {
+    const conditions: SQL[] = [eq(pdfJobs.ownerId, options.ownerId)];
+
+    if (options.status) {
+      conditions.push(eq(pdfJobs.status, options.status));
+    }
+    if (options.completed !== undefined) {
+      conditions.push(eq(pdfJobs.completed, options.completed));
+    }
+    if (options.createdAfter) {
+      conditions.push(gte(pdfJobs.createdAt, options.createdAfter));
+    }
+    if (options.createdBefore) {
+      conditions.push(lt(pdfJobs.createdAt, options.createdBefore));
+    }
+    if (options.search) {
+      // Escape LIKE wildcards so the search is a plain substring match
+      const pattern = `%${options.search.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+      conditions.push(sql`${pdfJobs.urls}::text ilike ${pattern}`);
+    }
+
+    const where = and(...conditions);
+
+    const jobs = await this.db
+      .select()
+      .from(pdfJobs)
+      .where(where)
+      .orderBy(desc(pdfJobs.createdAt))
+      .limit(options.limit)
+      .offset(options.offset);
+    const [{ total }] = await this.db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(pdfJobs)
+      .where(where);
+
+    return { jobs, total };
+  }
 }
 
-export const storage = new MemStorage();
+// STORAGE_DRIVER selects the backend; defaults to Postgres when DATABASE_URL is set
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  switch (driver) {
+    case "postgres":
+      return new DbStorage(getDb());
+    case "memory":
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected "postgres" or "memory"`);
+  }
+}
+
+export const storage = createStorage();
+
+// Prepare the selected storage backend before the server starts accepting requests
+export async function initStorage(): Promise<void> {
+  if (storage instanceof DbStorage) {
+    await runMigrations();
+  }
+}
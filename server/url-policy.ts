@@ -0,0 +1,182 @@
+import dns from "dns";
+import net from "net";
+import type { BrowserContext, Page } from 'playwright-chromium';
+import { config } from "./config";
+
+// A URL the server refuses to load; the message says why
+export class UrlPolicyError extends Error {}
+
+// Loopback, private, link-local, shared, documentation, multicast and reserved ranges
+const privateRanges = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.0.2.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15],
+  ["198.51.100.0", 24], ["203.0.113.0", 24], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+  privateRanges.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8], ["2001:db8::", 32],
+] as const) {
+  privateRanges.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPrivateAddress(scopedAddress: string): boolean {
+  // Link-local IPv6 addresses can carry a zone, as in fe80::1%eth0
+  const address = scopedAddress.split("%")[0];
+  const family = net.isIP(address);
+  if (family === 4) {
+    return privateRanges.check(address, "ipv4");
+  }
+  if (family === 6) {
+    const embedded = embeddedIpv4(address);
+    return embedded ? privateRanges.check(embedded, "ipv4") : privateRanges.check(address, "ipv6");
+  }
+  return true;
+}
+
+// Check a URL against the scheme, domain and network rules; resolves to the reason it is
+// refused, or null when it may be loaded. Host names are resolved, and every address they
+// resolve to has to be public.
+export async function checkUrl(url: string): Promise<string | null> {
+  const policy = config.urlPolicy;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "not a valid URL";
+  }
+
+  const scheme = parsed.protocol.slice(0, -1);
+  if (!policy.allowedSchemes.includes(scheme)) {
+    return `the ${scheme}: scheme is not allowed`;
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, "").replace(/\.$/, "").toLowerCase();
+  if (matchesDomain(host, policy.deniedDomains)) {
+    return `${host} is on the deny list`;
+  }
+  if (policy.allowedDomains.length > 0 && !matchesDomain(host, policy.allowedDomains)) {
+    return `${host} is not on the allow list`;
+  }
+  if (policy.allowPrivateNetworks) {
+    return null;
+  }
+
+  let addresses: string[];
+  try {
+    addresses = net.isIP(host)
+      ? [host]
+      : (await dns.promises.lookup(host, { all: true, verbatim: true })).map(entry => entry.address);
+  } catch (error) {
+    return `${host} could not be resolved (${(error as NodeJS.ErrnoException).code ?? (error as Error).message})`;
+  }
+
+  const blocked = addresses.find(isPrivateAddress);
+  if (!blocked) {
+    return null;
+  }
+  return blocked === host ? `${host} is a private address` : `${host} resolves to the private address ${blocked}`;
+}
+
+// Like checkUrl, but rejects with UrlPolicyError
+export async function assertUrlAllowed(url: string): Promise<void> {
+  const reason = await checkUrl(url);
+  if (reason) {
+    throw new UrlPolicyError(`Blocked by URL policy: ${reason}`);
+  }
+}
+
+// Refused URLs of a request, each with its reason, in request order
+export async function findRefusedUrls(urls: string[]): Promise<Array<{ url: string; reason: string }>> {
+  const reasons = await Promise.all(urls.map(checkUrl));
+  return urls.flatMap((url, index) => reasons[index] ? [{ url, reason: reasons[index]! }] : []);
+}
+
+// Apply the policy to everything loaded in the page's context: the document, every redirect
+// hop, every subresource, WebSocket connections and popups the page opens. Requests are
+// checked before they are sent, and since a host can resolve differently for the browser
+// than it did for the check, the address that actually served each response is checked
+// too. Call the returned function to throw for any violation.
+export async function guardPage(context: BrowserContext, page: Page, url: string): Promise<() => void> {
+  const reasons = new Map<string, Promise<string | null>>();
+  let violation: string | null = null;
+
+  // The rules only depend on the scheme and host
+  const check = (requestUrl: string) => {
+    let key: string;
+    try {
+      const parsed = new URL(requestUrl);
+      key = `${parsed.protocol}//${parsed.host}`;
+    } catch {
+      key = requestUrl;
+    }
+    if (!reasons.has(key)) {
+      reasons.set(key, checkUrl(requestUrl));
+    }
+    return reasons.get(key)!;
+  };
+
+  // WebSockets aren't requests that route() sees; ws: and wss: have to be allowed schemes
+  await context.routeWebSocket(() => true, async webSocket => {
+    const reason = await check(webSocket.url());
+    if (reason) {
+      console.log(`Blocked WebSocket to ${webSocket.url()}: ${reason}`);
+      await webSocket.close({ code: 1008, reason: "Blocked by URL policy" }).catch(() => undefined);
+    } else {
+      webSocket.connectToServer();
+    }
+  });
+
+  await context.route("**/*", async route => {
+    const requestUrl = route.request().url();
+    const reason = await check(requestUrl);
+    if (reason) {
+      console.log(`Blocked request to ${requestUrl}: ${reason}`);
+      // A refused subresource is simply left out, but the page itself can't be rendered
+      const request = route.request();
+      if (request.isNavigationRequest() && request.frame() === page.mainFrame()) {
+        violation ??= request.redirectedFrom() ? `${url} redirected to ${requestUrl}, but ${reason}` : reason;
+      }
+      await route.abort("blockedbyclient").catch(() => undefined);
+    } else {
+      await route.continue().catch(() => undefined);
+    }
+  });
+
+  if (!config.urlPolicy.allowPrivateNetworks) {
+    context.on("response", async response => {
+      const address = await response.serverAddr().catch(() => null);
+      if (address && isPrivateAddress(address.ipAddress)) {
+        violation ??= `${response.url()} was served from the private address ${address.ipAddress}`;
+      }
+    });
+  }
+
+  return () => {
+    if (violation) {
+      throw new UrlPolicyError(`Blocked by URL policy: ${violation}`);
+    }
+  };
+}
+
+function matchesDomain(host: string, domains: string[]): boolean {
+  return domains.some(domain => {
+    const normalized = domain.toLowerCase().replace(/^\*?\./, "");
+    return host === normalized || host.endsWith(`.${normalized}`);
+  });
+}
+
+// IPv4 address carried in an IPv4-mapped (::ffff:a.b.c.d) or NAT64 (64:ff9b::a.b.c.d) address
+function embeddedIpv4(address: string): string | null {
+  const normalized = new URL(`http://[${address}]`).hostname.slice(1, -1);
+  const match = normalized.match(/^(?:::ffff|64:ff9b:):([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (!match) {
+    return null;
+  }
+
+  const high = parseInt(match[1], 16);
+  const low = parseInt(match[2], 16);
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".");
+}
@@ -0,0 +1,163 @@
+import { createHmac, randomUUID } from "crypto";
+import { storage } from "./storage";
+import { config } from "./config";
+import { withJobLock } from "./job-lock";
+import { urlStatusFiles } from "./job-files";
+import { checkUrl } from "./url-policy";
+import type { JobOptions, MergedFile, OutputFile, PdfJob, UrlStatus, WebhookDelivery, WebhookOptions } from "@shared/schema";
+
+export interface JobWebhookPayload {
+  event: string;
+  deliveryId: string;
+  jobId: string;
+  parentJobId: string | null;
+  status: string;
+  // Why the job failed, when it did
+  error: string | null;
+  outputPath: string;
+  successCount: number;
+  failCount: number;
+  results: Array<{
+    url: string;
+    status: UrlStatus["status"];
+    filePath?: string;
+    files: OutputFile[];
+    error?: string;
+  }>;
+  mergedFile: MergedFile | null;
+  finishedAt: string;
+}
+
+// Notify a finished job's webhook, if it has one, retrying failed deliveries with backoff
+export async function sendJobWebhook(job: PdfJob): Promise<void> {
+  const webhook = (job.options as JobOptions).webhook;
+  if (!webhook) {
+    return;
+  }
+
+  const payload = buildPayload(job);
+  const body = JSON.stringify(payload);
+  const { maxAttempts, backoffMs } = config.webhooks;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const delivery = await postWebhook(webhook, payload, body, attempt);
+    await recordDelivery(job.jobId, delivery);
+
+    if (delivery.delivered) {
+      console.log(`Delivered ${payload.event} webhook for job ${job.jobId}`);
+      return;
+    }
+
+    console.error(
+      `Webhook delivery ${attempt}/${maxAttempts} for job ${job.jobId} failed: ` +
+      (delivery.error ?? `HTTP ${delivery.statusCode}`)
+    );
+
+    if (attempt < maxAttempts) {
+      await new Promise(resolve => setTimeout(resolve, backoffMs * 2 ** (attempt - 1)));
+    }
+  }
+}
+
+// Signature over "<timestamp>.<body>", so receivers can reject replayed payloads
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+// Remove the webhook secret from a job before it is sent to clients
+export function redactWebhookSecret(job: PdfJob): PdfJob {
+  const options = job.options as JobOptions;
+  if (!options.webhook) {
+    return job;
+  }
+
+  return {
+    ...job,
+    options: { ...options, webhook: { url: options.webhook.url } },
+  };
+}
+
+function buildPayload(job: PdfJob): JobWebhookPayload {
+  return {
+    event: `job.${job.status}`,
+    deliveryId: randomUUID(),
+    jobId: job.jobId,
+    parentJobId: job.parentJobId,
+    status: job.status,
+    error: job.error,
+    outputPath: job.outputPath,
+    successCount: job.successCount,
+    failCount: job.failCount,
+    results: (job.urlStatuses as UrlStatus[]).map(urlStatus => ({
+      url: urlStatus.url,
+      status: urlStatus.status,
+      filePath: urlStatus.filePath,
+      files: urlStatus.status === "complete" ? urlStatusFiles(urlStatus) : [],
+      error: urlStatus.error,
+    })),
+    mergedFile: job.mergedFile as MergedFile | null,
+    finishedAt: new Date().toISOString(),
+  };
+}
+
+async function postWebhook(
+  webhook: WebhookOptions,
+  payload: JobWebhookPayload,
+  body: string,
+  attempt: number
+): Promise<WebhookDelivery> {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const delivery: WebhookDelivery = {
+    deliveryId: payload.deliveryId,
+    event: payload.event,
+    attempt,
+    attemptedAt: new Date().toISOString(),
+    delivered: false,
+  };
+
+  try {
+    // Checked again on every attempt, since the host may resolve elsewhere by now
+    const refusal = await checkUrl(webhook.url);
+    if (refusal) {
+      delivery.error = `Webhook URL not allowed: ${refusal}`;
+      return delivery;
+    }
+
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "PDFSnap-Webhook",
+        "X-PdfSnap-Event": payload.event,
+        "X-PdfSnap-Delivery": payload.deliveryId,
+        "X-PdfSnap-Timestamp": timestamp,
+        "X-PdfSnap-Signature": `sha256=${signWebhookPayload(webhook.secret, timestamp, body)}`,
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(config.webhooks.timeoutMs),
+    });
+
+    // Only the status matters; drain the body so the connection can be reused
+    await response.arrayBuffer().catch(() => undefined);
+
+    delivery.statusCode = response.status;
+    delivery.delivered = response.ok;
+  } catch (error) {
+    delivery.error = (error as Error).message;
+  }
+
+  return delivery;
+}
+
+async function recordDelivery(jobId: string, delivery: WebhookDelivery): Promise<void> {
+  await withJobLock(jobId, async () => {
+    const job = await storage.getPdfJob(jobId);
+
+    if (job) {
+      await storage.updatePdfJob(jobId, {
+        webhookDeliveries: [...(job.webhookDeliveries as WebhookDelivery[]), delivery],
+      });
+    }
+  });
+}
@@ -14,27 +14,94 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
+// Sign-up form; the password is hashed before it is stored
+export const registerUserSchema = z.object({
+  username: z
+    .string()
+    .trim()
+    .min(3, "Username must be at least 3 characters")
+    .max(50, "Username can be at most 50 characters")
+    .regex(/^[A-Za-z0-9_.-]+$/, "Username may only contain letters, digits, dots, dashes and underscores"),
+  password: z
+    .string()
+    .min(8, "Password must be at least 8 characters")
+    .max(200, "Password can be at most 200 characters"),
+});
+
+export type RegisterUser = z.infer<typeof registerUserSchema>;
+
+// The signed-in user as the API returns it
+export interface PublicUser {
+  id: number;
+  username: string;
+}
+
 // New schema for PDF jobs
 export const pdfJobs = pgTable("pdf_jobs", {
   id: serial("id").primaryKey(),
   jobId: text("job_id").notNull().unique(),
+  // Set on jobs created to retry another job's failed URLs
+  parentJobId: text("parent_job_id"),
+  // The user who created the job; jobs from before accounts existed have none and belong to nobody
+  ownerId: integer("owner_id").references(() => users.id),
   urls: jsonb("urls").notNull(),
   outputPath: text("output_path").notNull(),
   status: text("status").notNull().default("pending"),
+  // Why the job failed, when it did
+  error: text("error"),
   completed: boolean("completed").notNull().default(false),
   urlStatuses: jsonb("url_statuses").notNull(),
   successCount: integer("success_count").notNull().default(0),
   failCount: integer("fail_count").notNull().default(0),
+  options: jsonb("options").notNull().default({}),
+  // One entry per attempt to deliver the job's completion webhook
+  webhookDeliveries: jsonb("webhook_deliveries").notNull().default([]),
+  // The job's PDFs combined into one file, once merged
+  mergedFile: jsonb("merged_file"),
+  createdAt: text("created_at").notNull(),
+});
+
+// What an API key may do: generate covers starting, retrying, merging and cancelling jobs,
+// read covers every GET, delete covers removing files
+export const apiKeyScopes = ["generate", "read", "delete"] as const;
+export type ApiKeyScope = typeof apiKeyScopes[number];
+
+// Keys for scripted access; only a hash of the secret is kept
+export const apiKeys = pgTable("api_keys", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  // The start of the secret, so users can tell their keys apart
+  prefix: text("prefix").notNull(),
+  keyHash: text("key_hash").notNull().unique(),
+  scopes: jsonb("scopes").$type<ApiKeyScope[]>().notNull(),
+  // ISO timestamps; a key without expiresAt never expires
+  expiresAt: text("expires_at"),
+  lastUsedAt: text("last_used_at"),
   createdAt: text("created_at").notNull(),
 });
 
+export const insertApiKeySchema = createInsertSchema(apiKeys, {
+  scopes: z.array(z.enum(apiKeyScopes)),
+}).pick({
+  userId: true,
+  name: true,
+  prefix: true,
+  keyHash: true,
+  scopes: true,
+  expiresAt: true,
+});
+
 export const insertPdfJobSchema = createInsertSchema(pdfJobs).pick({
   jobId: true,
+  parentJobId: true,
+  ownerId: true,
   urls: true,
   outputPath: true,
   status: true,
   completed: true,
   urlStatuses: true,
+  options: true,
 });
 
 // Types
@@ -44,19 +111,308 @@ export type User = typeof users.$inferSelect;
 export type InsertPdfJob = z.infer<typeof insertPdfJobSchema>;
 export type PdfJob = typeof pdfJobs.$inferSelect;
 
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+export type ApiKey = typeof apiKeys.$inferSelect;
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name can be at most 100 characters"),
+  scopes: z.array(z.enum(apiKeyScopes)).min(1, "Choose at least one scope").default([...apiKeyScopes]),
+  expiresAt: z
+    .string()
+    .datetime({ message: "expiresAt must be an ISO timestamp" })
+    .refine((value) => new Date(value).getTime() > Date.now(), "expiresAt must be in the future")
+    .optional(),
+});
+
+export type CreateApiKeyRequest = z.infer<typeof createApiKeySchema>;
+
+// An API key as listed back to its owner; the secret is never included
+export type ApiKeySummary = Omit<ApiKey, "userId" | "keyHash">;
+
+// CSS length accepted by Playwright, e.g. "8.5in", "210mm" or a bare pixel count
+const cssLength = z
+  .string()
+  .regex(/^\d+(\.\d+)?(px|in|cm|mm)?$/, "Must be a length such as 10px, 0.5in, 1cm or 5mm");
+
+export const paperFormats = ["A3", "A4", "A5", "Legal", "Letter", "Tabloid", "Ledger"] as const;
+
+// Built-in header/footer layouts; "provenance" stamps source URL, capture time and page numbers
+export const headerFooterPresets = ["provenance", "source", "page-numbers"] as const;
+
+// Options passed through to Playwright's page.pdf()
+export const pdfOptionsSchema = z
+  .object({
+    format: z.enum(paperFormats).optional(),
+    width: cssLength.optional(),
+    height: cssLength.optional(),
+    landscape: z.boolean().optional(),
+    margin: z
+      .object({
+        top: cssLength.optional(),
+        right: cssLength.optional(),
+        bottom: cssLength.optional(),
+        left: cssLength.optional(),
+      })
+      .optional(),
+    scale: z.number().min(0.1).max(2).optional(),
+    printBackground: z.boolean().optional(),
+    preferCSSPageSize: z.boolean().optional(),
+    pageRanges: z
+      .string()
+      .regex(/^\s*\d+(\s*-\s*\d+)?(\s*,\s*\d+(\s*-\s*\d+)?)*\s*$/, "Page ranges must look like 1-5, 8, 11-13")
+      .optional(),
+    displayHeaderFooter: z.boolean().optional(),
+    headerFooterPreset: z.enum(headerFooterPresets).optional(),
+    // Custom templates may use {{sourceUrl}} and {{capturedAt}} alongside Chromium's own classes
+    headerTemplate: z.string().max(10000).optional(),
+    footerTemplate: z.string().max(10000).optional(),
+  })
+  .refine((options) => !options.width === !options.height, {
+    message: "Custom paper size needs both width and height",
+  })
+  .refine((options) => !(options.format && options.width), {
+    message: "Use either a paper format or a custom width and height, not both",
+  });
+
+export type PdfOptions = z.infer<typeof pdfOptionsSchema>;
+
+// File types a job can produce for each URL; images are full-page screenshots,
+// MHTML and HTML are single-file archives of the rendered page, and Markdown and
+// text hold the page's main content
+export const outputFormats = ["pdf", "png", "jpeg", "webp", "mhtml", "html", "markdown", "text"] as const;
+
+export type OutputFormat = typeof outputFormats[number];
+
+export const screenshotOptionsSchema = z.object({
+  // JPEG and WebP only
+  quality: z.number().int().min(1).max(100).optional(),
+});
+
+export type ScreenshotOptions = z.infer<typeof screenshotOptionsSchema>;
+
+// Placeholders a filename template can use
+export const filenameTokens = [
+  "domain", "path", "query", "title", "index", "date", "time", "timestamp", "jobId", "hash",
+] as const;
+
+// "/" in a template starts a subdirectory of the output directory
+export const filenameTemplateSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(200)
+  .refine(
+    (template) => Array.from(template.matchAll(/\{([^}]*)\}/g))
+      .every(([, token]) => (filenameTokens as readonly string[]).includes(token)),
+    `Unknown filename token; use ${filenameTokens.map((token) => `{${token}}`).join(", ")}`
+  )
+  .refine(
+    (template) => !template.includes("\\") && template.split("/").every((segment) => segment.trim() !== "" && !/^\.+$/.test(segment.trim())),
+    "Filename template folders must be named and cannot be . or .."
+  );
+
+// What to do when a file with the generated name already exists
+export const filenameCollisionStrategies = ["suffix", "overwrite", "skip"] as const;
+
+export type FilenameCollisionStrategy = typeof filenameCollisionStrategies[number];
+
+// Kinds of render failure a job can choose to retry
+export const retryErrorClasses = ["timeout", "network", "other"] as const;
+
+export type RetryErrorClass = typeof retryErrorClasses[number];
+
+export const retryOptionsSchema = z.object({
+  // Total tries per URL, including the first one
+  maxAttempts: z.number().int().min(1).max(10).optional(),
+  // Delay before the first retry, multiplied by backoffMultiplier for each further retry
+  backoffMs: z.number().int().min(0).max(300000).optional(),
+  backoffMultiplier: z.number().min(1).max(10).optional(),
+  retryOn: z.array(z.enum(retryErrorClasses)).optional(),
+});
+
+export type RetryOptions = z.infer<typeof retryOptionsSchema>;
+
+// Endpoint notified when a job completes, fails or is cancelled; payloads are signed with the secret
+export const webhookSchema = z.object({
+  url: z.string().url().refine((url) => /^https?:/i.test(url), "Webhook URL must use http or https"),
+  secret: z.string().min(16, "Webhook secret must be at least 16 characters").max(256),
+});
+
+export type WebhookOptions = z.infer<typeof webhookSchema>;
+
+export const webhookDeliverySchema = z.object({
+  // Shared by every attempt to deliver the same event
+  deliveryId: z.string(),
+  event: z.string(),
+  attempt: z.number(),
+  attemptedAt: z.string(),
+  delivered: z.boolean(),
+  statusCode: z.number().optional(),
+  error: z.string().optional(),
+});
+
+export type WebhookDelivery = z.infer<typeof webhookDeliverySchema>;
+
+export const mergePdfSchema = z.object({
+  // Start the merged PDF with a page listing every source URL
+  coverPage: z.boolean().default(false),
+});
+
+export type MergePdfOptions = z.infer<typeof mergePdfSchema>;
+
+export interface MergedFile {
+  filename: string;
+  filePath: string;
+  fileSize: number;
+  pageCount: number;
+  createdAt: string;
+}
+
+// A user's limits and how much of each is in use
+export interface QuotaUsage {
+  maxUrlsPerJob: number;
+  runningJobs: number;
+  maxConcurrentJobs: number;
+  jobsThisHour: number;
+  maxJobsPerHour: number;
+  storedBytes: number;
+  maxStoredBytes: number;
+}
+
 // Validation schemas for API requests
 export const generatePdfSchema = z.object({
   urls: z.array(z.string().url()).min(1, "At least one URL is required"),
   outputPath: z.string().min(1, "Output path is required"),
+  pdfOptions: pdfOptionsSchema.optional(),
+  // Files to produce per URL; defaults to a PDF only
+  outputFormats: z
+    .array(z.enum(outputFormats))
+    .min(1, "Choose at least one output format")
+    .refine((formats) => new Set(formats).size === formats.length, "Output formats must not repeat")
+    .optional(),
+  screenshot: screenshotOptionsSchema.optional(),
+  // Names of the produced files, without extension; defaults to "{domain}_{timestamp}"
+  filenameTemplate: filenameTemplateSchema.optional(),
+  // Defaults to adding a numeric suffix
+  filenameCollision: z.enum(filenameCollisionStrategies).optional(),
+  // Number of URLs rendered in parallel; the server applies its own upper limit
+  concurrency: z.number().int().min(1).max(16).optional(),
+  retry: retryOptionsSchema.optional(),
+  webhook: webhookSchema.optional(),
+  // Combine the job's PDFs into one file once it completes
+  merge: mergePdfSchema.optional(),
 });
 
 export type GeneratePdfRequest = z.infer<typeof generatePdfSchema>;
 
+// Render a single URL and return the PDF directly, without creating a job
+export const renderPdfSchema = z.object({
+  url: z.string().url(),
+  pdfOptions: pdfOptionsSchema.optional(),
+  // Also save a copy of the PDF to this directory
+  outputPath: z.string().min(1).optional(),
+  timeoutMs: z.number().int().min(1000).optional(),
+});
+
+export type RenderPdfRequest = z.infer<typeof renderPdfSchema>;
+
+export const jobStatuses = ["pending", "processing", "completed", "failed", "cancelled"] as const;
+
+// Query string for the job history listing; dates are whole UTC days, both inclusive
+export const listJobsQuerySchema = z.object({
+  status: z.enum(jobStatuses).optional(),
+  from: z.string().date().optional(),
+  to: z.string().date().optional(),
+  q: z.string().trim().max(200).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type ListJobsQuery = z.infer<typeof listJobsQuerySchema>;
+
+// Job history entry; the full URL statuses are only returned by the status endpoint
+export interface PdfJobSummary {
+  jobId: string;
+  parentJobId: string | null;
+  status: string;
+  completed: boolean;
+  createdAt: string;
+  outputPath: string;
+  urlCount: number;
+  successCount: number;
+  failCount: number;
+  // The first few URLs, for display
+  urls: string[];
+}
+
+export const retryJobSchema = z.object({
+  // "same" re-queues into the original job, "child" starts a new job linked to it
+  mode: z.enum(["same", "child"]).default("same"),
+});
+
+// Per-job settings stored alongside the job record
+export type JobOptions = Omit<GeneratePdfRequest, "urls" | "outputPath">;
+
 // URL status type
+export const outputFileSchema = z.object({
+  format: z.enum(outputFormats),
+  // Relative to the job's output directory, with "/" between folders
+  filename: z.string(),
+  filePath: z.string(),
+  fileSize: z.number(),
+  // PDFs only
+  pageCount: z.number().optional(),
+  // A file of the same name already existed and was kept, as the job's collision strategy asked
+  skipped: z.boolean().optional(),
+});
+
+export type OutputFile = z.infer<typeof outputFileSchema>;
+
+export const urlAttemptSchema = z.object({
+  attempt: z.number(),
+  error: z.string(),
+  errorClass: z.enum(retryErrorClasses),
+  failedAt: z.string(),
+});
+
+export type UrlAttempt = z.infer<typeof urlAttemptSchema>;
+
 export const urlStatusSchema = z.object({
   url: z.string(),
-  status: z.enum(["pending", "processing", "complete", "failed"]),
+  // "retrying" means the last attempt failed and another one is scheduled
+  status: z.enum(["pending", "processing", "retrying", "complete", "failed"]),
   error: z.string().optional(),
+  attempt: z.number().optional(),
+  maxAttempts: z.number().optional(),
+  // Start of the latest attempt
+  startedAt: z.string().optional(),
+  // The first produced file, once the URL is complete; filename is relative to the job's output directory
+  filename: z.string().optional(),
+  filePath: z.string().optional(),
+  fileSize: z.number().optional(),
+  pageCount: z.number().optional(),
+  // Every file produced for the URL, in the order of the job's output formats
+  files: z.array(outputFileSchema).optional(),
+  // Title of the rendered page, used for bookmarks in merged PDFs
+  title: z.string().optional(),
+  capturedAt: z.string().optional(),
+  // Errors of every failed attempt, oldest first
+  attempts: z.array(urlAttemptSchema).optional(),
 });
 
 export type UrlStatus = z.infer<typeof urlStatusSchema>;
+
+// Summary of a job's state, sent on its live event stream
+export interface JobStatusEvent {
+  status: string;
+  error: string | null;
+  completed: boolean;
+  successCount: number;
+  failCount: number;
+}
+
+// A single URL's new status, sent on the job's live event stream
+export interface UrlStatusEvent {
+  index: number;
+  urlStatus: UrlStatus;
+}